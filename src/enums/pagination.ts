@@ -19,4 +19,16 @@ export enum PaginationType {
    * Predefined list of links or other request options.
    */
   List,
+  /**
+   * The page is requested by the offset of its first item and the number of items.
+   */
+  Offset,
+  /**
+   * Links to follow are discovered in the responses, starting from the seeds.
+   */
+  Crawl,
+  /**
+   * The time range is fetched in windows, split in half when a window is truncated.
+   */
+  TimeWindow,
 }
@@ -0,0 +1,12 @@
+/**
+ * The cycle should be aborted. Pending retries will not be handled.
+ *
+ * Can be thrown from fetch, validate and resolve handlers.
+ */
+export class FatalError extends Error {
+  constructor(message?: string) {
+    super(message);
+
+    this.name = 'FatalError';
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * The response was rejected by `validateResponse`, which returned `false`.
+ *
+ * The page is retried the same way as after a fetch error.
+ */
+export class ResponseValidationError extends Error {
+  constructor(message?: string) {
+    super(message);
+
+    this.name = 'ResponseValidationError';
+  }
+}
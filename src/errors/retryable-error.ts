@@ -0,0 +1,18 @@
+/**
+ * The page should be retried, optionally after the given delay.
+ *
+ * Can be thrown from fetch, validate and resolve handlers.
+ */
+export class RetryableError extends Error {
+  /**
+   * Delay before the retry, in `ms`. Overrides the retry backoff if defined.
+   */
+  readonly retryAfter: number | undefined;
+
+  constructor(message?: string, options?: { retryAfter?: number }) {
+    super(message);
+
+    this.name = 'RetryableError';
+    this.retryAfter = options?.retryAfter;
+  }
+}
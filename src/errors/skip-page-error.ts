@@ -0,0 +1,12 @@
+/**
+ * The page should be marked as failed right away, without retries.
+ *
+ * Can be thrown from fetch, validate and resolve handlers.
+ */
+export class SkipPageError extends Error {
+  constructor(message?: string) {
+    super(message);
+
+    this.name = 'SkipPageError';
+  }
+}
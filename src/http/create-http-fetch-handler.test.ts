@@ -0,0 +1,78 @@
+import { strict as assert } from 'node:assert';
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { SkipPageError } from '../errors/skip-page-error.js';
+import { createHttpFetchHandler } from './create-http-fetch-handler.js';
+
+describe('createHttpFetchHandler', () => {
+  const receivedHeaders = new Map<string, IncomingHttpHeaders>();
+  let server: Server;
+  let port: number;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      receivedHeaders.set(`${req.headers.host ?? ''}${req.url ?? ''}`, req.headers);
+
+      switch (req.url) {
+        case '/same-origin':
+          res.writeHead(302, { location: '/target' }).end();
+          break;
+        case '/other-origin':
+          res.writeHead(302, { location: `http://localhost:${port}/target` }).end();
+          break;
+        case '/no-location':
+          res.writeHead(302).end();
+          break;
+        case '/not-modified':
+          res.writeHead(304).end();
+          break;
+        default:
+          res.writeHead(200, { 'content-type': 'text/plain' }).end('ok');
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const fetchHandler = createHttpFetchHandler<object, string>({
+    buildRequest: (_ctx, path) => ({
+      url: `http://127.0.0.1:${port}${path}`,
+      headers: { Authorization: 'Bearer token', Cookie: 'session=1' },
+    }),
+  });
+
+  it('keeps the credentials on a redirect to the same origin', async () => {
+    assert.equal(await fetchHandler({}, '/same-origin'), 'ok');
+
+    const headers = receivedHeaders.get(`127.0.0.1:${port}/target`);
+
+    assert.equal(headers?.authorization, 'Bearer token');
+    assert.equal(headers.cookie, 'session=1');
+  });
+
+  it('drops the credentials on a redirect to another origin', async () => {
+    assert.equal(await fetchHandler({}, '/other-origin'), 'ok');
+
+    const headers = receivedHeaders.get(`localhost:${port}/target`);
+
+    assert.ok(headers);
+    assert.equal(headers.authorization, undefined);
+    assert.equal(headers.cookie, undefined);
+  });
+
+  it('fails a redirect without a location', async () => {
+    await assert.rejects(fetchHandler({}, '/no-location'), SkipPageError);
+  });
+
+  it('returns a not modified response without a location', async () => {
+    assert.equal(await fetchHandler({}, '/not-modified'), '');
+  });
+});
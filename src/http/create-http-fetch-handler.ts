@@ -0,0 +1,257 @@
+import { request as httpRequest } from 'node:http';
+import type { Agent, IncomingMessage, OutgoingHttpHeaders } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { promisify } from 'node:util';
+import { brotliDecompress, gunzip, inflate } from 'node:zlib';
+import { RetryableError } from '../errors/retryable-error.js';
+import { SkipPageError } from '../errors/skip-page-error.js';
+import { CookieJar } from '../utils/cookie-jar.js';
+import type {
+  HttpFetchHandlerOptions,
+  HttpRequest,
+  HttpResponse,
+} from '../types/http-fetch-handler.js';
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+const CREDENTIAL_HEADERS = new Set(['authorization', 'cookie']);
+const DECOMPRESSORS: Record<string, (buffer: Buffer) => Promise<Buffer>> = {
+  'gzip': promisify(gunzip),
+  'x-gzip': promisify(gunzip),
+  'deflate': promisify(inflate),
+  'br': promisify(brotliDecompress),
+};
+
+interface HttpContextState {
+  headers: OutgoingHttpHeaders;
+  agent: Agent | undefined;
+  cookieJar: CookieJar | undefined;
+}
+
+/**
+ * Create a `fetchHandler`, which makes the requests with the built-in `http` and `https` modules.
+ *
+ * Failed statuses are thrown as classified errors: `RetryableError` for `408`, `425`, `429` and `5xx`,
+ * with the delay from `Retry-After` header, and `SkipPageError` for the other `4xx` and for redirects without `Location` header.
+ *
+ * The `Authorization` and `Cookie` headers of the request are not sent after a redirect to another origin.
+ */
+export function createHttpFetchHandler<
+  TFlowContext extends object,
+  TPage = unknown,
+  TResponse = unknown,
+>(
+  options: HttpFetchHandlerOptions<TFlowContext, TPage, TResponse>,
+): (ctx: TFlowContext, page?: TPage) => Promise<TResponse> {
+  const contextStates = new WeakMap<TFlowContext, HttpContextState>();
+
+  return async (ctx, page) => {
+    let state = contextStates.get(ctx);
+
+    if (!state) {
+      state = {
+        headers: normalizeHeaders(options.initHeaders?.(ctx)),
+        agent: options.resolveAgent?.(ctx),
+        cookieJar: options.cookies ?? true ? new CookieJar() : undefined,
+      };
+
+      contextStates.set(ctx, state);
+    }
+
+    const request = await options.buildRequest(ctx, page as TPage);
+    const response = await sendRequest(request, state, options);
+
+    if (response.status >= 400) {
+      const message = `Request to "${response.url}" failed with status ${response.status}`;
+
+      if (response.status >= 500 || RETRYABLE_STATUSES.has(response.status)) {
+        throw new RetryableError(message, {
+          retryAfter: parseRetryAfter(response.headers['retry-after']),
+        });
+      }
+
+      throw new SkipPageError(message);
+    }
+
+    return parseResponse(response, options.parse);
+  };
+}
+
+async function sendRequest<TFlowContext, TPage, TResponse>(
+  request: HttpRequest,
+  state: HttpContextState,
+  options: HttpFetchHandlerOptions<TFlowContext, TPage, TResponse>,
+): Promise<HttpResponse> {
+  let headers: OutgoingHttpHeaders = {
+    'accept-encoding': 'gzip, deflate, br',
+    ...state.headers,
+    ...normalizeHeaders(request.headers),
+  };
+  let url = new URL(request.url.toString());
+  let method = (request.method ?? 'GET').toUpperCase();
+  let body: string | Buffer | undefined;
+
+  if (typeof request.body === 'string' || Buffer.isBuffer(request.body)) {
+    body = request.body;
+  } else if (typeof request.body !== 'undefined') {
+    body = JSON.stringify(request.body);
+    headers['content-type'] ??= 'application/json';
+  }
+
+  for (let redirectCount = 0; ; redirectCount++) {
+    const cookie = [headers['cookie'], state.cookieJar?.getCookieHeader(url)]
+      .filter((value) => typeof value !== 'undefined')
+      .join('; ');
+    const response = await sendOnce(
+      url,
+      method,
+      cookie ? { ...headers, cookie } : headers,
+      body,
+      state.agent,
+      options.timeout ?? 30000,
+    );
+
+    state.cookieJar?.setCookies(response.headers['set-cookie'] ?? [], url);
+
+    const location = response.headers.location;
+
+    if (REDIRECT_STATUSES.has(response.status) && !location) {
+      throw new SkipPageError(
+        `Request to "${response.url}" responded with status ${response.status} without a location`,
+      );
+    }
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return response;
+    }
+    if (redirectCount >= (options.maxRedirects ?? 5)) {
+      throw new Error(`Too many redirects from "${String(request.url)}"`);
+    }
+
+    const previousOrigin = url.origin;
+
+    url = new URL(location, url);
+
+    // The credentials of the caller are not leaked to the other origins, the jar cookies are matched by the domain
+    if (url.origin !== previousOrigin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.has(name)),
+      );
+    }
+
+    // The body is dropped the same way as by the browsers
+    if (response.status === 303 || (response.status <= 302 && method === 'POST')) {
+      method = method === 'HEAD' ? method : 'GET';
+      body = undefined;
+
+      delete headers['content-type'];
+      delete headers['content-length'];
+    }
+  }
+}
+
+function sendOnce(
+  url: URL,
+  method: string,
+  headers: OutgoingHttpHeaders,
+  body: string | Buffer | undefined,
+  agent: Agent | undefined,
+  timeout: number,
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = request(url, { method, headers, agent }, (res) => {
+      readBody(res).then(
+        (responseBody) => {
+          clearTimeout(timeoutId);
+          resolve({
+            url: url.href,
+            status: res.statusCode ?? 0,
+            headers: res.headers,
+            body: responseBody,
+          });
+        },
+        (err: unknown) => {
+          clearTimeout(timeoutId);
+          reject(err);
+        },
+      );
+    });
+    const timeoutId = setTimeout(() => {
+      reject(new RetryableError(`Request to "${url.href}" timed out after ${timeout} ms`));
+
+      req.destroy();
+    }, timeout);
+
+    req.on('error', (err) => {
+      clearTimeout(timeoutId);
+      reject(err);
+    });
+    req.end(body);
+  });
+}
+
+async function readBody(res: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of res) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const body = Buffer.concat(chunks);
+  const encoding = res.headers['content-encoding']?.trim().toLowerCase();
+  const decompress = encoding ? DECOMPRESSORS[encoding] : undefined;
+
+  return decompress && body.length ? decompress(body) : body;
+}
+
+async function parseResponse<TResponse>(
+  response: HttpResponse,
+  parse: HttpFetchHandlerOptions<unknown, unknown, TResponse>['parse'],
+): Promise<TResponse> {
+  if (typeof parse === 'function') {
+    return parse(response);
+  }
+
+  const type =
+    parse ?? (/[/+]json\b/i.test(response.headers['content-type'] ?? '') ? 'json' : 'text');
+
+  if (type === 'buffer') {
+    return response.body as TResponse;
+  }
+
+  const text = response.body.toString('utf8');
+
+  return (type === 'json' ? JSON.parse(text) : text) as TResponse;
+}
+
+/**
+ * Lowercase header names, so the headers of different sources override each other.
+ */
+function normalizeHeaders(headers: OutgoingHttpHeaders | undefined): OutgoingHttpHeaders {
+  const normalized: OutgoingHttpHeaders = {};
+
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (typeof value !== 'undefined') {
+      normalized[name.toLowerCase()] = value;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * @returns {} Delay in `ms`, or `undefined` if the header is missing or invalid.
+ */
+function parseRetryAfter(header: string | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
@@ -1,4 +1,23 @@
 export * from './scraper-flow.js';
+export * from './scraper-pipeline.js';
 export * from './enums/pagination.js';
 export * from './types/scraper-flow-options.js';
 export * from './types/validated-options.js';
+export * from './types/scraper-pipeline.js';
+export * from './types/checkpoint.js';
+export * from './stores/memory-checkpoint-store.js';
+export * from './stores/file-checkpoint-store.js';
+export * from './types/seen-key-store.js';
+export * from './stores/memory-seen-key-store.js';
+export * from './stores/file-seen-key-store.js';
+export * from './errors/retryable-error.js';
+export * from './errors/fatal-error.js';
+export * from './errors/skip-page-error.js';
+export * from './errors/response-validation-error.js';
+export * from './types/rate-limiter.js';
+export * from './rate-limiters/token-bucket-rate-limiter.js';
+export * from './types/response-sink.js';
+export * from './sinks/file-sink.js';
+export * from './types/plugin.js';
+export * from './types/http-fetch-handler.js';
+export * from './http/create-http-fetch-handler.js';
@@ -0,0 +1,47 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { TokenBucketRateLimiter } from './token-bucket-rate-limiter.js';
+
+describe('TokenBucketRateLimiter', () => {
+  it('spaces the requests evenly within the window', async () => {
+    const rateLimiter = new TokenBucketRateLimiter({ requests: 10, window: 1000 });
+    const startTime = Date.now();
+    const acquireTimes = await Promise.all(
+      [1, 2, 3, 4].map(async () => {
+        await rateLimiter.acquire();
+
+        return Date.now() - startTime;
+      }),
+    );
+
+    assert.ok((acquireTimes[0] ?? 0) < 50);
+
+    for (let i = 1; i < acquireTimes.length; i++) {
+      const gap = (acquireTimes[i] ?? 0) - (acquireTimes[i - 1] ?? 0);
+
+      assert.ok(gap >= 90, `Requests ${i} and ${i + 1} are only ${gap} ms apart`);
+    }
+  });
+
+  it('lets the burst through at once', async () => {
+    const rateLimiter = new TokenBucketRateLimiter({ requests: 1, window: 1000, burst: 3 });
+    const startTime = Date.now();
+
+    await Promise.all([rateLimiter.acquire(), rateLimiter.acquire(), rateLimiter.acquire()]);
+
+    assert.ok(Date.now() - startTime < 50);
+  });
+
+  it('cancels the waiting requests on abort', async () => {
+    const rateLimiter = new TokenBucketRateLimiter({ requests: 1, window: 500 });
+    const abortController = new AbortController();
+
+    assert.equal(await rateLimiter.acquire(abortController.signal), false);
+
+    const waiting = rateLimiter.acquire(abortController.signal);
+
+    abortController.abort();
+
+    assert.equal(await waiting, true);
+  });
+});
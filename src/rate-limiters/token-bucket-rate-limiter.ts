@@ -0,0 +1,106 @@
+import type { RateLimiter, RateLimitOptions } from '../types/rate-limiter.js';
+
+interface Waiter {
+  resolve: (canceled: boolean) => void;
+  signal: AbortSignal | undefined;
+  onabort: () => void;
+}
+
+/**
+ * Token bucket rate limiter.
+ *
+ * Can be shared by multiple scrapers to limit their combined request rate.
+ * Options are read on each request, so they can be changed later.
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+  readonly options: RateLimitOptions;
+
+  #tokens: number;
+  #lastRefillTime: number;
+  #waiters: Waiter[];
+  #timeoutId: NodeJS.Timeout | undefined;
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+
+    this.#tokens = this._getBurst();
+    this.#lastRefillTime = Date.now();
+    this.#waiters = [];
+  }
+
+  acquire(signal?: AbortSignal): Promise<boolean> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        return resolve(true);
+      }
+
+      const waiter: Waiter = {
+        resolve,
+        signal,
+        onabort: () => {
+          const index = this.#waiters.indexOf(waiter);
+
+          if (index !== -1) {
+            this.#waiters.splice(index, 1);
+          }
+
+          resolve(true);
+        },
+      };
+
+      signal?.addEventListener('abort', waiter.onabort, { once: true });
+
+      this.#waiters.push(waiter);
+      this._drain();
+    });
+  }
+
+  private _drain(): void {
+    const rate = this._getRate();
+
+    if (!Number.isFinite(rate)) {
+      // No limit
+      this.#tokens = this._getBurst();
+    } else {
+      const now = Date.now();
+
+      this.#tokens = Math.min(this._getBurst(), this.#tokens + (now - this.#lastRefillTime) * rate);
+      this.#lastRefillTime = now;
+    }
+
+    while (this.#tokens >= 1 || !Number.isFinite(rate)) {
+      const waiter = this.#waiters.shift();
+
+      if (!waiter) {
+        break;
+      }
+
+      this.#tokens--;
+
+      waiter.signal?.removeEventListener('abort', waiter.onabort);
+      waiter.resolve(false);
+    }
+
+    if (this.#waiters.length && typeof this.#timeoutId === 'undefined') {
+      this.#timeoutId = setTimeout(() => {
+        this.#timeoutId = undefined;
+
+        this._drain();
+      }, Math.ceil((1 - this.#tokens) / rate));
+    }
+  }
+
+  /**
+   * @returns {} Number of tokens added per `ms`.
+   */
+  private _getRate(): number {
+    const requests = this.options.requests ?? Number.POSITIVE_INFINITY;
+    const window = this.options.window ?? 1000;
+
+    return requests / Math.max(1, window);
+  }
+
+  private _getBurst(): number {
+    return Math.max(1, this.options.burst ?? 1);
+  }
+}
@@ -0,0 +1,886 @@
+import { strict as assert } from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { PaginationType } from './enums/pagination.js';
+import { FatalError } from './errors/fatal-error.js';
+import { RetryableError } from './errors/retryable-error.js';
+import { SkipPageError } from './errors/skip-page-error.js';
+import { ScraperFlow } from './scraper-flow.js';
+import { FileCheckpointStore } from './stores/file-checkpoint-store.js';
+import { MemoryCheckpointStore } from './stores/memory-checkpoint-store.js';
+import type { CycleSummary } from './types/scraper-flow-options.js';
+
+interface CycleFlow {
+  startOnce(): Promise<void>;
+  once(eventName: 'cycleSummary', listener: (summary: CycleSummary) => void): unknown;
+}
+
+/**
+ * Run one cycle of the scraper.
+ */
+async function runCycle(flow: CycleFlow): Promise<CycleSummary> {
+  let summary: CycleSummary | undefined;
+
+  flow.once('cycleSummary', (cycleSummary) => {
+    summary = cycleSummary;
+  });
+
+  await flow.startOnce();
+
+  assert.ok(summary);
+
+  return summary;
+}
+
+describe('ScraperFlow', () => {
+  it('keeps the rate limit while waiting for a response slot', async () => {
+    const fetchTimes: number[] = [];
+    let handlerCalls = 0;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      concurrency: 4,
+      rateLimit: { requests: 5, window: 1000 },
+      responseHandling: 'awaited',
+      maxPendingResponses: 1,
+      resolveList: () => [1, 2, 3, 4, 5],
+      fetchHandler: (_ctx, item) => {
+        fetchTimes.push(Date.now());
+
+        return item;
+      },
+      responseHandler: async () => {
+        if (handlerCalls++ === 0) {
+          await new Promise((resolve) => setTimeout(resolve, 1500));
+        }
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, true);
+    assert.equal(fetchTimes.length, 5);
+
+    for (let i = 1; i < fetchTimes.length; i++) {
+      const gap = (fetchTimes[i] ?? 0) - (fetchTimes[i - 1] ?? 0);
+
+      assert.ok(gap >= 150, `Fetches ${i} and ${i + 1} are only ${gap} ms apart`);
+    }
+  });
+
+  it('does not end the cycle early with a cycle budget longer than the max timeout', async () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      cycleBudget: { maxDurationMs: 3e9 },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => new Promise((resolve) => setTimeout(resolve, 10, item)),
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.endReason, 'completed');
+    assert.equal(summary.stats.perFlow['0']?.successCount, 3);
+  });
+
+  it('does not overflow the retry timer with a retry delay longer than the max timeout', async () => {
+    const warnings: string[] = [];
+    const onWarning = (warning: Error): void => {
+      warnings.push(warning.name);
+    };
+    let fetchCount = 0;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      cycleBudget: { maxDurationMs: 300 },
+      errorHandlingPolicy: { retryLimit: 1, retryBackoff: { delay: 3e9 } },
+      resolveList: () => [1],
+      fetchHandler: (_ctx, item) => {
+        if (fetchCount++ === 0) {
+          throw new RetryableError('Retry');
+        }
+
+        return item;
+      },
+    });
+
+    process.on('warning', onWarning);
+
+    try {
+      const summary = await runCycle(flow);
+
+      assert.equal(summary.endReason, 'budgetExceeded');
+      assert.equal(fetchCount, 1);
+    } finally {
+      process.off('warning', onWarning);
+    }
+
+    assert.ok(!warnings.includes('TimeoutOverflowWarning'));
+  });
+
+  it('adapts the concurrency without changing the concurrency option', async () => {
+    const concurrencyChanges: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      concurrency: 1,
+      adaptiveConcurrency: { enabled: true, min: 1, max: 3 },
+      resolveList: () => [1, 2, 3, 4, 5, 6, 7, 8],
+      fetchHandler: (_ctx, item) => new Promise((resolve) => setTimeout(resolve, 10, item)),
+    });
+
+    flow.on('concurrencyChanged', (concurrency) => {
+      concurrencyChanges.push(concurrency);
+    });
+
+    await runCycle(flow);
+
+    assert.deepEqual(concurrencyChanges, [2, 3]);
+    assert.equal(flow.options.concurrency, 1);
+  });
+
+  it('keeps the adaptive concurrency min not greater than max', () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      adaptiveConcurrency: { enabled: true, min: 5, max: 2 },
+      resolveList: () => [],
+      fetchHandler: () => undefined,
+    });
+
+    assert.equal(flow.options.adaptiveConcurrency.min, 1);
+    assert.equal(flow.options.adaptiveConcurrency.max, 2);
+
+    flow.options.adaptiveConcurrency = { ...flow.options.adaptiveConcurrency, min: 20, max: 30 };
+
+    assert.equal(flow.options.adaptiveConcurrency.min, 20);
+    assert.equal(flow.options.adaptiveConcurrency.max, 30);
+  });
+
+  it('pauses and resumes the cycle without taking rate limit tokens while paused', async () => {
+    const events: string[] = [];
+    const fetchedItems: number[] = [];
+    let acquireCount = 0;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 100,
+      rateLimiter: {
+        acquire: () => {
+          acquireCount++;
+
+          return Promise.resolve(false);
+        },
+      },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        fetchedItems.push(item);
+
+        // Paused while the next flow waits for the interval
+        if (item === 1) {
+          setTimeout(() => flow.pause(), 50);
+        }
+
+        return item;
+      },
+    });
+
+    flow.on('paused', () => events.push('paused'));
+    flow.on('resumed', () => events.push('resumed'));
+
+    const cycle = runCycle(flow);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    assert.deepEqual(fetchedItems, [1]);
+    assert.equal(flow.resume(), true);
+
+    const summary = await cycle;
+
+    assert.equal(summary.endReason, 'completed');
+    assert.deepEqual(fetchedItems, [1, 2, 3]);
+    assert.deepEqual(events, ['paused', 'resumed']);
+    assert.equal(acquireCount, 3);
+  });
+
+  it('stops a paused scraper without emitting the resumed event', async () => {
+    const events: string[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        if (item === 1) {
+          flow.pause();
+        }
+
+        return item;
+      },
+    });
+
+    flow.on('paused', () => events.push('paused'));
+    flow.on('resumed', () => events.push('resumed'));
+
+    const cycle = flow.startOnce();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await flow.stop();
+    await cycle;
+
+    assert.deepEqual(events, ['paused']);
+  });
+
+  it('calls the plugin hooks in order, the first plugin wrapping the others', async () => {
+    const calls: string[] = [];
+    const createPlugin = (name: string, cachedItem?: number) => ({
+      onCycleStart: () => {
+        calls.push(`${name}.onCycleStart`);
+      },
+      onContextInit: () => {
+        calls.push(`${name}.onContextInit`);
+      },
+      beforeFetch: (_ctx: object, page: unknown) => {
+        calls.push(`${name}.beforeFetch ${String(page)}`);
+
+        return page === cachedItem ? { response: page } : undefined;
+      },
+      afterFetch: (_ctx: object, _response: unknown, page: unknown) => {
+        calls.push(`${name}.afterFetch ${String(page)}`);
+      },
+      onError: (_err: unknown, _ctx: object, page: unknown) => {
+        calls.push(`${name}.onError ${String(page)}`);
+      },
+      onCycleEnd: () => {
+        calls.push(`${name}.onCycleEnd`);
+      },
+    });
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      plugins: [createPlugin('a', 2), createPlugin('b')],
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        calls.push(`fetchHandler ${item}`);
+
+        if (item === 3) {
+          throw new SkipPageError('Skip');
+        }
+
+        return item;
+      },
+    });
+
+    await runCycle(flow);
+
+    assert.deepEqual(calls, [
+      'a.onContextInit',
+      'b.onContextInit',
+      'a.onCycleStart',
+      'b.onCycleStart',
+      'a.beforeFetch 1',
+      'b.beforeFetch 1',
+      'fetchHandler 1',
+      'b.afterFetch 1',
+      'a.afterFetch 1',
+      // The plugin that returned the response does not wrap it
+      'a.beforeFetch 2',
+      'a.beforeFetch 3',
+      'b.beforeFetch 3',
+      'fetchHandler 3',
+      'b.onError 3',
+      'a.onError 3',
+      'a.onCycleEnd',
+      'b.onCycleEnd',
+    ]);
+  });
+
+  it('passes the page replaced by a plugin to the next page handlers', async () => {
+    const validatedPages: unknown[] = [];
+    const writtenPages: unknown[] = [];
+    const failedPages: unknown[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      plugins: [
+        {
+          beforeFetch: (_ctx, page) => ({ page: `/items/${String(page)}` }),
+          onError: (_err, _ctx, page) => {
+            failedPages.push(page);
+          },
+        },
+      ],
+      sinks: [
+        {
+          write: ({ page }) => {
+            writtenPages.push(page);
+          },
+        },
+      ],
+      resolveList: () => [1, 2],
+      fetchHandler: (_ctx, page) => {
+        if (String(page) === '/items/2') {
+          throw new SkipPageError('Skip');
+        }
+
+        return page;
+      },
+      validateResponse: (_ctx, _response, page) => {
+        validatedPages.push(page);
+
+        return true;
+      },
+    });
+
+    await runCycle(flow);
+
+    assert.deepEqual(validatedPages, ['/items/1']);
+    assert.deepEqual(writtenPages, ['/items/1']);
+    assert.deepEqual(failedPages, ['/items/2']);
+  });
+
+  it('waits for the cooldown when all flow contexts are tripped', async () => {
+    const events: string[] = [];
+    const fetchTimes: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      errorHandlingPolicy: { retryLimit: 1 },
+      circuitBreaker: { enabled: true, maxConsecutiveFailures: 1, cooldown: 200 },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        fetchTimes.push(Date.now());
+
+        if (fetchTimes.length === 1) {
+          throw new RetryableError('Retry');
+        }
+
+        return item;
+      },
+    });
+
+    flow.on('contextTripped', () => events.push('contextTripped'));
+    flow.on('contextRecovered', () => events.push('contextRecovered'));
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.endReason, 'completed');
+    assert.equal(summary.stats.perFlow['0']?.successCount, 3);
+    assert.deepEqual(events, ['contextTripped', 'contextRecovered']);
+    assert.ok((fetchTimes[1] ?? 0) - (fetchTimes[0] ?? 0) >= 190);
+  });
+
+  it('ends the cycle with a context error if the cooldown outlasts the cycle budget', async () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      cycleBudget: { maxDurationMs: 5000 },
+      circuitBreaker: { enabled: true, maxConsecutiveFailures: 1, cooldown: 10000 },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: () => {
+        throw new RetryableError('Retry');
+      },
+    });
+
+    const startTime = Date.now();
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.endReason, 'contextError');
+    assert.ok(Date.now() - startTime < 1000);
+  });
+
+  it('collects the dead letters and fetches them again with retryFailed', async () => {
+    const fetchedItems: number[] = [];
+    let failing = true;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      errorHandlingPolicy: { retryLimit: 1 },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        fetchedItems.push(item);
+
+        if (failing && item === 2) {
+          throw new RetryableError('Retry', { retryAfter: 0 });
+        }
+
+        return item;
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.deadLetters.length, 1);
+    assert.equal(summary.deadLetters[0]?.page, 2);
+    assert.equal(summary.deadLetters[0].attempts, 2);
+    assert.ok(summary.deadLetters[0].error instanceof RetryableError);
+
+    failing = false;
+    fetchedItems.length = 0;
+
+    const repairSummary = await flow.retryFailed(summary);
+
+    assert.deepEqual(fetchedItems, [2]);
+    assert.equal(repairSummary?.completed, true);
+    assert.deepEqual(repairSummary.deadLetters, []);
+  });
+
+  it('crawls the discovered links once, up to the max depth', async () => {
+    const links: Record<string, string[]> = {
+      '/': ['/a', '/b'],
+      '/a': ['/b', '/c'],
+      '/b': ['/'],
+      '/c': ['/d'],
+    };
+    const fetchedItems: string[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.Crawl,
+      logger: false,
+      interval: 0,
+      maxDepth: 2,
+      resolveSeeds: () => ['/'],
+      resolveLinks: (_ctx, response: string) => links[response] ?? [],
+      fetchHandler: (_ctx, item: string) => {
+        fetchedItems.push(item);
+
+        return item;
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.endReason, 'completed');
+    assert.deepEqual(fetchedItems, ['/', '/a', '/b', '/c']);
+    assert.deepEqual(summary.stats.crawl, {
+      discoveredCount: 6,
+      fetchedCount: 4,
+      skippedCount: 2,
+      depthReached: 2,
+    });
+  });
+
+  it('stops the crawl at the max items', async () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.Crawl,
+      logger: false,
+      interval: 0,
+      maxItems: 3,
+      resolveSeeds: () => [0],
+      resolveLinks: (_ctx, response: number) => [response * 2 + 1, response * 2 + 2],
+      fetchHandler: (_ctx, item: number) => item,
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.stats.crawl?.fetchedCount, 3);
+  });
+
+  it('splits the truncated time windows in half', async () => {
+    const timestamps = [100, 200, 1500, 2500, 3500];
+    const handledRecords: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.TimeWindow,
+      logger: false,
+      interval: 0,
+      from: 0,
+      to: 4000,
+      windowSize: 4000,
+      minWindowSize: 1000,
+      responseHandling: 'awaited',
+      fetchHandler: (_ctx, window) =>
+        timestamps.filter((timestamp) => timestamp >= window.start && timestamp < window.end),
+      resolveIsTruncated: (_ctx, response) => response.length > 2,
+      responseHandler: (_ctx, response) => {
+        handledRecords.push(...response);
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.endReason, 'completed');
+    assert.deepEqual(
+      handledRecords.sort((a, b) => a - b),
+      timestamps,
+    );
+    assert.deepEqual(summary.stats.timeWindow, {
+      windowCount: 3,
+      splitCount: 2,
+      failedWindowList: [],
+    });
+  });
+
+  it('fails the truncated time windows that are too small to split', async () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.TimeWindow,
+      logger: false,
+      interval: 0,
+      from: 0,
+      to: 1000,
+      windowSize: 1000,
+      minWindowSize: 1000,
+      fetchHandler: () => [1, 2, 3],
+      resolveIsTruncated: () => true,
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, false);
+    assert.deepEqual(summary.stats.timeWindow?.failedWindowList, [{ start: 0, end: 1000 }]);
+  });
+
+  it('fetches the cursor chains of the seeds concurrently, ending only the failed chain', async () => {
+    const nextCursors: Record<string, string | undefined> = { a: 'a2', a2: 'a3', c: 'c2' };
+    const fetchedCursors: string[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.Cursor,
+      logger: false,
+      interval: 0,
+      concurrency: 3,
+      resolveCursorSeeds: () => ['a', 'b', 'c'],
+      fetchHandler: async (_ctx, cursor?: string) => {
+        fetchedCursors.push(cursor ?? '');
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        if (cursor === 'c2') {
+          throw new SkipPageError('Skip');
+        }
+
+        return cursor ?? '';
+      },
+      resolveCursor: (_ctx, response) => nextCursors[response],
+    });
+
+    const summary = await runCycle(flow);
+
+    // One page of each chain at a time, so the seeds are fetched together
+    assert.deepEqual(fetchedCursors.slice(0, 3), ['a', 'b', 'c']);
+    assert.deepEqual(
+      fetchedCursors.filter((cursor) => cursor.startsWith('a')),
+      ['a', 'a2', 'a3'],
+    );
+    assert.deepEqual(summary.stats.cursorChains, [
+      { seed: 'a', pageCount: 3, completed: true },
+      { seed: 'b', pageCount: 1, completed: true },
+      { seed: 'c', pageCount: 2, completed: false },
+    ]);
+  });
+
+  it('fetches the items enqueued into the running list cycle', async () => {
+    const fetchedItems: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      resolveList: () => [1, 2],
+      fetchHandler: (_ctx, item) => {
+        fetchedItems.push(item);
+
+        return new Promise((resolve) => setTimeout(resolve, 50, item));
+      },
+    });
+
+    assert.equal(flow.enqueue([0]), false);
+
+    const cycle = runCycle(flow);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assert.equal(flow.enqueue([10, 11]), true);
+
+    const summary = await cycle;
+
+    assert.equal(summary.endReason, 'completed');
+    assert.deepEqual(fetchedItems, [1, 2, 10, 11]);
+    assert.equal(flow.enqueue([12]), false);
+  });
+
+  it('stops the next cycles after a page with only seen item keys', async () => {
+    let itemIds = [5, 4, 3, 2, 1];
+    const fetchedPages: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.HasMore,
+      logger: false,
+      interval: 0,
+      fetchHandler: (_ctx, page) => {
+        fetchedPages.push(page);
+
+        return { ids: itemIds.slice((page - 1) * 2, page * 2), hasMore: page * 2 < itemIds.length };
+      },
+      resolveHasMore: (_ctx, response) => response.hasMore,
+      resolveItemKeys: (_ctx, response) => response.ids,
+    });
+
+    await runCycle(flow);
+
+    assert.deepEqual(fetchedPages, [1, 2, 3]);
+
+    itemIds = [6, ...itemIds];
+    fetchedPages.length = 0;
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, true);
+    assert.deepEqual(fetchedPages, [1, 2]);
+  });
+
+  it('fetches the list items in the priority order, and the retries after them', async () => {
+    const fetchedItems: number[] = [];
+    let failed = false;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      errorHandlingPolicy: { retryLimit: 1, retryOrder: 'last' },
+      resolveList: () => [1, 5, 3, 4, 2],
+      resolvePriority: (item) => item,
+      fetchHandler: (_ctx, item) => {
+        fetchedItems.push(item);
+
+        // Retried after the new items
+        if (!failed && item === 4) {
+          failed = true;
+
+          throw new RetryableError('Retry', { retryAfter: 0 });
+        }
+
+        return new Promise((resolve) => setTimeout(resolve, 10, item));
+      },
+    });
+
+    const cycle = runCycle(flow);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    flow.enqueue([10, 0], { priority: 3.5 });
+
+    const summary = await cycle;
+
+    assert.equal(summary.endReason, 'completed');
+    assert.deepEqual(fetchedItems, [5, 4, 10, 0, 3, 2, 1, 4]);
+  });
+
+  it('ends the cycle with a fatal error', async () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      errorHandlingPolicy: { skipPageIfPossible: true },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        if (item === 2) {
+          throw new FatalError('Fatal');
+        }
+
+        return item;
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, false);
+    assert.equal(summary.endReason, 'fatalError');
+  });
+
+  it('ends the cycle with a context error if a flow context cannot be initialized mid-cycle', async () => {
+    let contextCount = 0;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      concurrency: 1,
+      initFlowContext: () => {
+        if (contextCount++) {
+          throw new Error('Context');
+        }
+
+        return {};
+      },
+      resolveList: () => [1, 2, 3],
+      fetchHandler: (_ctx, item) => {
+        flow.options.concurrency = 2;
+
+        return item;
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, false);
+    assert.equal(summary.endReason, 'contextError');
+  });
+
+  it('resumes the interrupted cycle from the checkpoint file', async () => {
+    const dirPath = await mkdtemp(join(tmpdir(), 'scraper-flow-'));
+    const checkpointStore = new FileCheckpointStore(join(dirPath, 'checkpoint.json'));
+    const fetchedItems: number[] = [];
+    const createFlow = (stopAt?: number) => {
+      const flow = ScraperFlow.create({
+        paginationType: PaginationType.List,
+        logger: false,
+        interval: 0,
+        checkpointStore,
+        resume: true,
+        resolveList: () => [1, 2, 3, 4, 5],
+        fetchHandler: (_ctx, item) => {
+          fetchedItems.push(item);
+
+          if (item === stopAt) {
+            void flow.stop(true);
+          }
+
+          return item;
+        },
+      });
+
+      return flow;
+    };
+
+    try {
+      const firstSummary = await runCycle(createFlow(2));
+
+      assert.equal(firstSummary.endReason, 'forcedStop');
+      assert.ok(await checkpointStore.load());
+
+      fetchedItems.length = 0;
+
+      const summary = await runCycle(createFlow());
+
+      assert.equal(summary.endReason, 'completed');
+      // The page being fetched at the forced stop is fetched again
+      assert.deepEqual(fetchedItems, [2, 3, 4, 5]);
+      assert.equal(summary.stats.perFlow['0']?.successCount, 5);
+      assert.equal(await checkpointStore.load(), undefined);
+    } finally {
+      await rm(dirPath, { recursive: true, force: true });
+    }
+  });
+
+  it('saves the attempts left of the pages being fetched in the checkpoint', async () => {
+    const checkpointStore = new MemoryCheckpointStore();
+    let attempts = 0;
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      errorHandlingPolicy: { retryLimit: 3 },
+      checkpointStore,
+      resolveList: () => [1],
+      fetchHandler: async (_ctx, item) => {
+        if (attempts++ === 0) {
+          throw new RetryableError('Retry', { retryAfter: 0 });
+        }
+
+        void flow.stop(true);
+
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        return item;
+      },
+    });
+
+    await runCycle(flow);
+
+    assert.deepEqual(checkpointStore.load()?.pendingRetries, [
+      { retry: { item: 1, index: 0, priority: 0 }, attemptsLeft: 2 },
+    ]);
+  });
+
+  it('drops the offset retries past the last item without fetching them', async () => {
+    const fetchedOffsets: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.Offset,
+      logger: false,
+      interval: 0,
+      concurrency: 3,
+      pageSize: 10,
+      paginationPrefetch: true,
+      resolveTotal: () => 15,
+      fetchHandler: async (_ctx, page) => {
+        fetchedOffsets.push(page.offset);
+
+        // All pages are fetched ahead, before the total is known
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        if (page.offset === 20) {
+          throw new RetryableError('Retry', { retryAfter: 20 });
+        }
+
+        return page;
+      },
+    });
+
+    const summary = await runCycle(flow);
+    const flowStats = Object.values(summary.stats.perFlow);
+
+    assert.equal(summary.completed, true);
+    assert.deepEqual(
+      fetchedOffsets.sort((a, b) => a - b),
+      [0, 10, 20],
+    );
+    assert.equal(
+      flowStats.reduce((count, stats) => count + stats.pageCount, 0),
+      3,
+    );
+    assert.equal(
+      flowStats.reduce((count, stats) => count + stats.retryCount, 0),
+      0,
+    );
+  });
+
+  it('does not wait for the detached response handlers to end a list cycle', async () => {
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      resolveList: () => [1],
+      fetchHandler: (_ctx, item) => item,
+      responseHandler: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+      },
+    });
+    const startTime = Date.now();
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, true);
+    assert.ok(Date.now() - startTime < 500);
+  });
+
+  it('fetches the items enqueued by the awaited response handlers', async () => {
+    const fetchedItems: number[] = [];
+    const flow = ScraperFlow.create({
+      paginationType: PaginationType.List,
+      logger: false,
+      interval: 0,
+      responseHandling: 'awaited',
+      resolveList: () => [1],
+      fetchHandler: (_ctx, item: number) => {
+        fetchedItems.push(item);
+
+        return item;
+      },
+      responseHandler: async (_ctx, response) => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        return response < 3 ? { enqueue: [response + 1] } : undefined;
+      },
+    });
+
+    const summary = await runCycle(flow);
+
+    assert.equal(summary.completed, true);
+    assert.deepEqual(fetchedItems, [1, 2, 3]);
+  });
+});
@@ -2,26 +2,56 @@ import { EventEmitter } from 'node:events';
 import { PaginationType } from './enums/pagination.js';
 import type {
   CycleSummary,
+  DeadLetter,
+  EnqueueFromResponse,
+  EnqueueOptions,
+  FlowResponse,
+  FlowStats,
   LogType,
   PaginationForCursorOptions,
   PaginationForHasMoreOptions,
   PaginationForListOptions,
   PaginationForNoneOptions,
+  PaginationForOffsetOptions,
+  PaginationForCrawlOptions,
+  PaginationForTimeWindowOptions,
+  TimeWindowPage,
   PaginationForTotalPagesOptions,
+  OffsetPage,
   ScraperFlowOptions,
 } from './types/scraper-flow-options.js';
 import type {
   ValidatedScraperFlowOptions,
-  ValidatedPaginationForNoneOptions,
   ValidatedPaginationForTotalPagesOptions,
   ValidatedPaginationForHasMoreOptions,
   ValidatedPaginationForCursorOptions,
   ValidatedPaginationForListOptions,
+  ValidatedPaginationForOffsetOptions,
+  ValidatedPaginationForCrawlOptions,
+  ValidatedPaginationForTimeWindowOptions,
 } from './types/validated-options.js';
+import type { CheckpointPendingRetry, CycleCheckpoint } from './types/checkpoint.js';
+import type { AfterFetchResult, BeforeFetchResult, ScraperFlowPlugin } from './types/plugin.js';
+import { FatalError } from './errors/fatal-error.js';
+import { RetryableError } from './errors/retryable-error.js';
+import { SkipPageError } from './errors/skip-page-error.js';
+import { ResponseValidationError } from './errors/response-validation-error.js';
+import { TokenBucketRateLimiter } from './rate-limiters/token-bucket-rate-limiter.js';
+import { MemorySeenKeyStore } from './stores/memory-seen-key-store.js';
 import { validateOptions } from './utils/validate-options.js';
 import { CycleSummaryHelper } from './utils/cycle-summary-helper.js';
+import { AdaptiveConcurrencyController } from './utils/adaptive-concurrency-controller.js';
+import { ResponseStream } from './utils/response-stream.js';
+import { CircuitBreaker } from './utils/circuit-breaker.js';
+import { LookAheadIterator, isAsyncIterable } from './utils/look-ahead-iterator.js';
+import { PriorityQueue } from './utils/priority-queue.js';
 import { sleep } from './utils/sleep.js';
 
+/**
+ * Max delay of `setTimeout`, in `ms`.
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
 export class ScraperFlow<
   TPaginationType extends PaginationType,
   TThisContext extends Record<string, unknown>,
@@ -81,6 +111,42 @@ export class ScraperFlow<
     unknown,
     TPageListItem
   >;
+  static create<
+    TThisContext extends Record<string, unknown>,
+    TFlowContext extends Record<string, unknown>,
+    TResponse,
+  >(
+    options: PaginationForOffsetOptions<TThisContext, TFlowContext, TResponse>,
+  ): ScraperFlow<PaginationType.Offset, TThisContext, TFlowContext, TResponse, unknown, unknown>;
+  static create<
+    TThisContext extends Record<string, unknown>,
+    TFlowContext extends Record<string, unknown>,
+    TResponse,
+    TPageListItem,
+  >(
+    options: PaginationForCrawlOptions<TThisContext, TFlowContext, TResponse, TPageListItem>,
+  ): ScraperFlow<
+    PaginationType.Crawl,
+    TThisContext,
+    TFlowContext,
+    TResponse,
+    unknown,
+    TPageListItem
+  >;
+  static create<
+    TThisContext extends Record<string, unknown>,
+    TFlowContext extends Record<string, unknown>,
+    TResponse,
+  >(
+    options: PaginationForTimeWindowOptions<TThisContext, TFlowContext, TResponse>,
+  ): ScraperFlow<
+    PaginationType.TimeWindow,
+    TThisContext,
+    TFlowContext,
+    TResponse,
+    unknown,
+    unknown
+  >;
   static create<
     TThisContext extends Record<string, unknown>,
     TFlowContext extends Record<string, unknown>,
@@ -106,6 +172,70 @@ export class ScraperFlow<
      * If concurrency should be fixed to the number of contexts.
      */
     isConcurrencyFixed: boolean;
+    /**
+     * If handing out new pages is paused.
+     */
+    paused: boolean;
+    /**
+     * Called on resume, to continue handing out pages.
+     */
+    resumeListeners: Set<() => void>;
+    /**
+     * Called when new work is added, to continue handing out pages.
+     */
+    workListeners: Set<() => void>;
+    /**
+     * Work queue of the running "list" cycle.
+     */
+    listQueue?: {
+      enqueue: (items: readonly TPageListItem[], priority: number | undefined) => void;
+    };
+    /**
+     * Response handler calls, which are not settled yet.
+     */
+    pendingResponses: Set<Promise<void>>;
+    /**
+     * Pages being fetched, counted towards `maxPendingResponses`.
+     */
+    reservedResponses: number;
+    /**
+     * Called when a pending response slot is freed.
+     */
+    responseSlotListeners: Set<() => void>;
+    /**
+     * Sequential queue of checkpoint store operations.
+     */
+    checkpointQueue: Promise<void>;
+    /**
+     * Rate limiter built from `rateLimit` option.
+     */
+    rateLimiter: TokenBucketRateLimiter;
+    /**
+     * Keeps the adaptive concurrency state between cycles.
+     */
+    concurrencyController: AdaptiveConcurrencyController;
+    /**
+     * Concurrency set by `adaptiveConcurrency`, used instead of `concurrency` option.
+     */
+    adaptedConcurrency?: number;
+    /**
+     * Seen key store used if `seenKeyStore` option is not defined.
+     */
+    seenKeyStore: MemorySeenKeyStore;
+    /**
+     * Circuit breakers of the flow contexts.
+     */
+    circuitBreakers: WeakMap<TFlowContext, CircuitBreaker>;
+    /**
+     * Summary helper of the current or the last cycle.
+     */
+    summaryHelper?: CycleSummaryHelper;
+    /**
+     * Streams returned by `responses()`.
+     */
+    responseStreams: Set<
+      ResponseStream<PageResponse<TPaginationType, TFlowContext, TResponse, TCursor, TPageListItem>>
+    >;
   };
 
   /**
@@ -124,6 +254,10 @@ export class ScraperFlow<
     return !!this.#state.running;
   }
 
+  get isPaused(): boolean {
+    return this.#state.paused;
+  }
+
   /**
    * Global "this" context.
    */
@@ -138,6 +272,13 @@ export class ScraperFlow<
     return this.#state.flowsContexts;
   }
 
+  /**
+   * Stats of each flow in the current cycle, or in the last one if not running.
+   */
+  get perFlowStats(): Readonly<Record<string, FlowStats>> {
+    return this.#state.summaryHelper?.summarizePerFlow() ?? {};
+  }
+
   /**
    * Use static method `create` to instantiate a new class instance.
    */
@@ -159,6 +300,18 @@ export class ScraperFlow<
       flowsContexts: [],
       isFirstContextInit: true,
       isConcurrencyFixed: false,
+      paused: false,
+      resumeListeners: new Set(),
+      workListeners: new Set(),
+      pendingResponses: new Set(),
+      reservedResponses: 0,
+      responseSlotListeners: new Set(),
+      checkpointQueue: Promise.resolve(),
+      rateLimiter: new TokenBucketRateLimiter(this.options.rateLimit),
+      concurrencyController: new AdaptiveConcurrencyController(),
+      seenKeyStore: new MemorySeenKeyStore(),
+      circuitBreakers: new WeakMap(),
+      responseStreams: new Set(),
     };
   }
 
@@ -168,32 +321,7 @@ export class ScraperFlow<
    * @returns {} `true` if started successfully, `false` if already running.
    */
   start(): boolean {
-    const state = this.#state;
-
-    if (state.running) return false;
-
-    const abortController = new AbortController();
-    const promise = this._startCycleLoop(abortController.signal);
-    const running = {
-      abortController,
-      promise,
-    };
-
-    // Rewriting the promise to only fulfill after the stop work has been done
-    running.promise = running.promise.finally(() => {
-      // Need to make sure the object reference remains the same
-      if (running !== state.running) return;
-
-      state.running = undefined;
-
-      this._emitNextTick('stopped');
-    });
-
-    state.running = running;
-
-    this._emitNextTick('started');
-
-    return true;
+    return !!this._run();
   }
 
   /**
@@ -238,26 +366,232 @@ export class ScraperFlow<
       state.running.abortController.signal.dispatchEvent(evt);
     }
 
+    // The current cycle cannot end while paused, a stop does not count as resumed
+    if (state.paused) {
+      this._clearPause();
+    }
+
     return state.running.promise;
   }
 
-  private async _startCycleLoop(signal: AbortSignal): Promise<void> {
-    const CYCLE_HANDLERS: Record<PaginationType, (signal: AbortSignal) => Promise<CycleSummary>> = {
+  /**
+   * Pause the scraper, keeping the current cycle state.
+   *
+   * New pages will not be fetched until resumed, but the pages that are already being fetched will finish.
+   *
+   * @returns {} `true` if paused successfully, `false` if not running or already paused.
+   */
+  pause(): boolean {
+    const state = this.#state;
+
+    if (!state.running || state.paused) return false;
+
+    state.paused = true;
+
+    this._emitNextTick('paused');
+
+    return true;
+  }
+
+  /**
+   * Resume the paused scraper.
+   *
+   * @returns {} `true` if resumed successfully, `false` if not paused.
+   */
+  resume(): boolean {
+    const state = this.#state;
+
+    if (!state.paused) return false;
+
+    this._clearPause();
+    this._emitNextTick('resumed');
+
+    return true;
+  }
+
+  /**
+   * Iterate over the responses, until the scraper stops.
+   *
+   * If the consumer is slower than the scraper, fetching is paused while the buffer is full.
+   *
+   * @param bufferSize Max number of buffered responses. Default `100`.
+   */
+  responses(
+    bufferSize = 100,
+  ): AsyncIterableIterator<
+    PageResponse<TPaginationType, TFlowContext, TResponse, TCursor, TPageListItem>
+  > {
+    const state = this.#state;
+    const stream = new ResponseStream<
+      PageResponse<TPaginationType, TFlowContext, TResponse, TCursor, TPageListItem>
+    >(Math.max(1, Math.trunc(bufferSize) || 1), () => {
+      state.responseStreams.delete(stream);
+    });
+
+    state.responseStreams.add(stream);
+
+    return stream;
+  }
+
+  /**
+   * Start the scraper just for one cycle, and iterate over its responses.
+   *
+   * If already running, the iterator ends immediately.
+   *
+   * @param bufferSize Max number of buffered responses. Default `100`.
+   */
+  run(
+    bufferSize?: number,
+  ): AsyncIterableIterator<
+    PageResponse<TPaginationType, TFlowContext, TResponse, TCursor, TPageListItem>
+  > {
+    const stream = this.responses(bufferSize);
+
+    if (this.start()) {
+      // We use graceful stop here, to execute just one cycle
+      void this.stop();
+    } else {
+      void stream.return?.();
+    }
+
+    return stream;
+  }
+
+  /**
+   * Run a one-off repair cycle over the failed pages, with the same contexts and error policy.
+   *
+   * Only the failed pages are fetched, the cursors and page numbers are not resolved again.
+   *
+   * @param summaryOrDeadLetters Cycle summary, or its dead letters.
+   * @returns {} A promise that resolves with the repair cycle summary, or `undefined` if already running.
+   */
+  async retryFailed(
+    summaryOrDeadLetters: CycleSummary | readonly DeadLetter[],
+  ): Promise<CycleSummary | undefined> {
+    const deadLetters =
+      'deadLetters' in summaryOrDeadLetters
+        ? summaryOrDeadLetters.deadLetters
+        : summaryOrDeadLetters;
+    const promise = this._run(deadLetters);
+
+    if (!promise) return undefined;
+
+    // We use graceful stop here, to execute just one cycle
+    await this.stop();
+
+    return promise;
+  }
+
+  /**
+   * Add the plugin after the plugins already added. Can be used while running.
+   *
+   * @returns {} The scraper, for chaining.
+   */
+  use(plugin: ScraperFlowPlugin<TFlowContext, TResponse>): this {
+    this.options.plugins = [...this.options.plugins, plugin];
+
+    return this;
+  }
+
+  /**
+   * Add items to the work queue of the running "list" cycle.
+   *
+   * Items with a higher priority are fetched first. The items of `resolveList` have the priority
+   * from `resolvePriority`, or `0`.
+   *
+   * @returns {} `true` if the items were added, `false` if no "list" cycle is running.
+   */
+  enqueue(items: readonly TPageListItem[], options?: EnqueueOptions): boolean {
+    const listQueue = this.#state.listQueue;
+
+    if (!listQueue || !Array.isArray(items)) return false;
+
+    const priority = options?.priority;
+
+    listQueue.enqueue(
+      items,
+      typeof priority === 'undefined' || Number.isFinite(priority) ? priority : 0,
+    );
+
+    this._notifyWork();
+
+    return true;
+  }
+
+  /**
+   * @param deadLetters If defined, a single repair cycle will be run over these pages.
+   * @returns {} A promise that resolves with the last cycle summary, or `undefined` if already running.
+   */
+  private _run(deadLetters?: readonly DeadLetter[]): Promise<CycleSummary | undefined> | undefined {
+    const state = this.#state;
+
+    if (state.running) return undefined;
+
+    const abortController = new AbortController();
+    const promise = this._startCycleLoop(abortController.signal, deadLetters);
+    const running = {
+      abortController,
+      promise: promise.then(() => undefined),
+    };
+
+    // Rewriting the promise to only fulfill after the stop work has been done
+    running.promise = running.promise.finally(() => {
+      // Need to make sure the object reference remains the same
+      if (running !== state.running) return;
+
+      state.running = undefined;
+
+      for (const stream of state.responseStreams) {
+        stream.end();
+      }
+
+      state.responseStreams.clear();
+
+      this._emitNextTick('stopped');
+    });
+
+    state.running = running;
+
+    this._emitNextTick('started');
+
+    return promise;
+  }
+
+  private async _startCycleLoop(
+    signal: AbortSignal,
+    deadLetters?: readonly DeadLetter[],
+  ): Promise<CycleSummary | undefined> {
+    const CYCLE_HANDLERS: Record<
+      PaginationType,
+      (signal: AbortSignal, checkpoint?: CycleCheckpoint) => Promise<CycleSummary>
+    > = {
       [PaginationType.None]: this._handlePaginationNoneCycle.bind(this),
       [PaginationType.TotalPages]: this._handlePaginationTotalPagesCycle.bind(this),
       [PaginationType.HasMore]: this._handlePaginationHasMoreCycle.bind(this),
       [PaginationType.Cursor]: this._handlePaginationCursorCycle.bind(this),
       [PaginationType.List]: this._handlePaginationListCycle.bind(this),
+      [PaginationType.Offset]: this._handlePaginationOffsetCycle.bind(this),
+      [PaginationType.Crawl]: this._handlePaginationCrawlCycle.bind(this),
+      [PaginationType.TimeWindow]: this._handlePaginationTimeWindowCycle.bind(this),
     };
-    const cycleHandler = CYCLE_HANDLERS[this.options.paginationType];
+    const cycleHandler = deadLetters
+      ? (signal: AbortSignal) => this._handleRepairCycle(signal, deadLetters)
+      : CYCLE_HANDLERS[this.options.paginationType];
     let currentCycleAbortController: AbortController | undefined;
+    let isFirstCycle = true;
+    let lastSummary: CycleSummary | undefined;
 
     signal.addEventListener('abort', onabort);
 
     while (!signal.aborted) {
+      if (this.#state.paused && (await this._waitForResume(signal))) {
+        break;
+      }
+
       currentCycleAbortController = new AbortController();
 
-      if (this.options.resetThisContext && !this.#state.isFirstContextInit) {
+      // The repair cycle keeps the contexts of the previous cycles
+      if (this.options.resetThisContext && !this.#state.isFirstContextInit && !deadLetters) {
         try {
           const globalContext = this.options.initThisContext.call(
             this.globalContext,
@@ -278,14 +612,53 @@ export class ScraperFlow<
         }
       }
 
-      if (this._updateFlowsContexts(true)) {
+      if (this._updateFlowsContexts(!deadLetters || this.#state.isFirstContextInit)) {
         this.#state.isFirstContextInit = false;
       } else {
         break;
       }
 
+      // Only the first cycle after the start can be resumed
+      const checkpoint =
+        isFirstCycle && this.options.resume && !deadLetters
+          ? await this._loadCheckpoint()
+          : undefined;
+
+      isFirstCycle = false;
+
+      for (const plugin of this.options.plugins) {
+        try {
+          await plugin.onCycleStart?.();
+        } catch (e) {
+          this._log('pluginError', e);
+        }
+      }
+
       const startTime = Date.now();
-      const summary = await cycleHandler(currentCycleAbortController.signal);
+      const summary = await cycleHandler(currentCycleAbortController.signal, checkpoint);
+
+      lastSummary = summary;
+
+      // The checkpoint is kept only if the cycle was interrupted, to be able to resume it later
+      if (!currentCycleAbortController.signal.aborted && !deadLetters) {
+        this._clearCheckpoint();
+      }
+
+      for (const plugin of this.options.plugins) {
+        try {
+          await plugin.onCycleEnd?.(summary);
+        } catch (e) {
+          this._log('pluginError', e);
+        }
+      }
+
+      for (const sink of this.options.sinks) {
+        try {
+          await sink.writeSummary?.(summary);
+        } catch (e) {
+          this._log('sinkError', e);
+        }
+      }
 
       if (this.options.summaryHandler) {
         try {
@@ -317,6 +690,20 @@ export class ScraperFlow<
 
     signal.removeEventListener('abort', onabort);
 
+    // Waiting for the pending checkpoint operations
+    await this.#state.checkpointQueue;
+
+    // Sinks are closed after their last write was called, so they can flush it before the stop
+    for (const sink of this.options.sinks) {
+      try {
+        await sink.close?.();
+      } catch (e) {
+        this._log('sinkError', e);
+      }
+    }
+
+    return lastSummary;
+
     function onabort(evt: Event & { forcedStop?: boolean }): void {
       const forcedStop = evt.forcedStop ?? signal.reason === 'forcedStop';
 
@@ -333,48 +720,61 @@ export class ScraperFlow<
       );
     }
 
-    const options = this.options as ValidatedPaginationForNoneOptions<
-      TThisContext,
-      TFlowContext,
-      TResponse
-    >;
-    const summaryHelper = new CycleSummaryHelper();
+    const summaryHelper = this._initSummaryHelper();
 
     summaryHelper.stats.totalPageCount = 1;
 
-    await this._startFlowOrchestrator(async (ctx, attemptsLeft, done) => {
-      const startTime = Date.now();
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done) => {
+        const startTime = Date.now();
 
-      done(); // We have only one page to fetch
+        done(); // We have only one page to fetch
 
-      try {
-        const response = await options.fetchHandler.call(this.globalContext, ctx);
-        this._handleResponse(ctx, response);
+        const fetched: { page: unknown } = { page: undefined };
+
+        try {
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+          this._handleResponse(ctx, response, fetched.page);
 
-        summaryHelper.completed = true;
-        summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+          summaryHelper.completed = true;
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
 
-        return false;
-      } catch (e) {
-        this._log('fetchError', e, [ctx]);
+          return false;
+        } catch (e) {
+          const error = await this._handleFetchError(e, [ctx]);
+          const failure = this._classifyError(error, ctx, attemptsLeft);
+
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
 
-        summaryHelper.stats.totalErrorCount++;
-        summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(1, undefined, error, failure.attempt);
+            summaryHelper.endReason ??= 'failLimit';
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
 
-        if (attemptsLeft <= 0) {
-          summaryHelper.stats.failedPageList.add(1);
+          return { retry: true, ...failure };
+        } finally {
+          summaryHelper.addAvgTiming('all', Date.now() - startTime);
         }
+      },
+      signal,
+    );
 
-        return true;
-      } finally {
-        summaryHelper.addAvgTiming('all', Date.now() - startTime);
-      }
-    }, signal);
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
 
     return summaryHelper.summarize();
   }
 
-  private async _handlePaginationTotalPagesCycle(signal: AbortSignal): Promise<CycleSummary> {
+  private async _handlePaginationTotalPagesCycle(
+    signal: AbortSignal,
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
     if (this.options.paginationType !== PaginationType.TotalPages) {
       throw new Error(
         `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.TotalPages}"`,
@@ -386,85 +786,127 @@ export class ScraperFlow<
       TFlowContext,
       TResponse
     >;
-    const summaryHelper = new CycleSummaryHelper();
-    const failCounter = this._initFailCounter();
-    let nextPage = options.paginationStart;
-    let lastPage: number | undefined;
+    const position = checkpoint?.position as { nextPage: number; lastPage?: number } | undefined;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const failCounter = this._initFailCounter(summaryHelper, checkpoint?.failCounter);
+    const inFlightPages = new Map<number, CheckpointPendingRetry>();
+    let nextPage = position ? position.nextPage : options.paginationStart;
+    let lastPage = position?.lastPage;
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done, retry?: { page: number }) => {
+        const startTime = Date.now();
 
-    await this._startFlowOrchestrator(async (ctx, attemptsLeft, done, retry?: { page: number }) => {
-      const startTime = Date.now();
+        let page: number;
 
-      let page: number;
-
-      if (retry) {
-        page = retry.page;
-      } else {
-        page = nextPage++;
+        if (retry) {
+          page = retry.page;
+        } else {
+          page = nextPage++;
 
-        if (typeof lastPage !== 'undefined' && page >= lastPage) {
-          done();
+          if (typeof lastPage !== 'undefined' && page >= lastPage) {
+            done();
 
-          summaryHelper.completed = true;
+            summaryHelper.completed = true;
+          }
         }
-      }
 
-      let successful = false;
+        inFlightPages.set(page, { retry: { page }, attemptsLeft });
 
-      try {
-        const response = await options.fetchHandler.call(this.globalContext, ctx, page);
+        let successful = false;
+        let error: unknown;
+
+        const fetched: { page: unknown } = { page };
 
         try {
-          const totalPages = await options.resolveTotalPages.call(
-            this.globalContext,
-            ctx,
-            response,
-          );
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
 
-          if (Number.isFinite(totalPages)) {
-            successful = true;
+          try {
+            const totalPages = await options.resolveTotalPages.call(
+              this.globalContext,
+              ctx,
+              response,
+            );
 
-            lastPage = totalPages;
-            summaryHelper.stats.totalPageCount = totalPages;
-          } else {
-            this._log('resolveError', new Error(`Invalid value returned "${totalPages}"`));
+            if (Number.isFinite(totalPages)) {
+              successful = true;
+
+              lastPage = totalPages;
+              summaryHelper.stats.totalPageCount = totalPages;
+            } else {
+              error = new Error(`Invalid value returned "${totalPages}"`);
+
+              this._log('resolveError', error);
+            }
+          } catch (e) {
+            error = e;
+
+            this._log('resolveError', e);
+          } finally {
+            this._handleResponse(ctx, response, fetched.page);
           }
         } catch (e) {
-          this._log('resolveError', e);
-        } finally {
-          this._handleResponse(ctx, response);
+          error = await this._handleFetchError(e, [ctx, fetched.page]);
         }
-      } catch (e) {
-        this._log('fetchError', e, [ctx, page]);
-      }
 
-      summaryHelper.addAvgTiming('all', Date.now() - startTime);
+        summaryHelper.addAvgTiming('all', Date.now() - startTime);
 
-      if (successful) {
-        summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+        let failure: ErrorClassification | undefined;
 
-        failCounter.success();
-      } else {
-        summaryHelper.stats.totalErrorCount++;
-        summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+        if (successful) {
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+
+          failCounter.success();
+        } else {
+          failure = this._classifyError(error, ctx, attemptsLeft);
 
-        if (attemptsLeft <= 0) {
-          summaryHelper.stats.failedPageList.add(page);
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
 
-          if (failCounter.fail(page)) {
-            done();
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(page, page, error, failure.attempt);
+
+            if (failCounter.fail(page)) {
+              done();
+            }
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
           }
         }
-      }
 
-      return successful ? false : { page };
-    }, signal);
+        inFlightPages.delete(page);
+
+        return failure ? { retry: { page }, ...failure } : false;
+      },
+      signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          this._saveCheckpoint({
+            position: { nextPage, lastPage },
+            pendingRetries: [...pendingRetries, ...inFlightPages.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: failCounter.toCheckpoint(),
+          });
+        },
+      },
+    );
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
 
     summaryHelper.completed = summaryHelper.completed && failCounter.complete(lastPage);
 
     return summaryHelper.summarize();
   }
 
-  private async _handlePaginationHasMoreCycle(signal: AbortSignal): Promise<CycleSummary> {
+  private async _handlePaginationHasMoreCycle(
+    signal: AbortSignal,
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
     if (this.options.paginationType !== PaginationType.HasMore) {
       throw new Error(
         `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.HasMore}"`,
@@ -476,83 +918,124 @@ export class ScraperFlow<
       TFlowContext,
       TResponse
     >;
-    const summaryHelper = new CycleSummaryHelper();
-    const failCounter = this._initFailCounter();
-    let nextPage = options.paginationStart;
-    let lastPage: number | undefined;
-
-    await this._startFlowOrchestrator(async (ctx, attemptsLeft, done, retry?: { page: number }) => {
-      const startTime = Date.now();
+    const position = checkpoint?.position as { nextPage: number; lastPage?: number } | undefined;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const failCounter = this._initFailCounter(summaryHelper, checkpoint?.failCounter);
+    const inFlightPages = new Map<number, CheckpointPendingRetry>();
+    let nextPage = position ? position.nextPage : options.paginationStart;
+    let lastPage = position?.lastPage;
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done, retry?: { page: number }) => {
+        const startTime = Date.now();
 
-      let page: number;
+        let page: number;
 
-      if (retry) {
-        page = retry.page;
+        if (retry) {
+          page = retry.page;
 
-        if (typeof lastPage !== 'undefined' && page > lastPage) {
-          return false;
+          if (typeof lastPage !== 'undefined' && page > lastPage) {
+            return false;
+          }
+        } else {
+          page = nextPage++;
         }
-      } else {
-        page = nextPage++;
-      }
 
-      let successful = false;
+        inFlightPages.set(page, { retry: { page }, attemptsLeft });
 
-      try {
-        const response = await options.fetchHandler.call(this.globalContext, ctx, page);
+        let successful = false;
+        let error: unknown;
+
+        const fetched: { page: unknown } = { page };
 
         try {
-          const hasMore = await options.resolveHasMore.call(this.globalContext, ctx, response);
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+
+          try {
+            const hasMore = await options.resolveHasMore.call(this.globalContext, ctx, response);
+            const stop = await this._isIncrementalStop(options, ctx, response);
 
-          successful = true;
+            successful = true;
 
-          if (!hasMore) {
-            done();
+            if (!hasMore || stop) {
+              done();
 
-            summaryHelper.completed = true;
+              summaryHelper.completed = true;
 
-            if (typeof lastPage === 'undefined' || page < lastPage) {
-              lastPage = page;
-              summaryHelper.stats.totalPageCount = page;
+              if (typeof lastPage === 'undefined' || page < lastPage) {
+                lastPage = page;
+                summaryHelper.stats.totalPageCount = page;
+              }
             }
+          } catch (e) {
+            error = e;
+
+            this._log('resolveError', e);
+          } finally {
+            this._handleResponse(ctx, response, fetched.page);
           }
         } catch (e) {
-          this._log('resolveError', e);
-        } finally {
-          this._handleResponse(ctx, response);
+          error = await this._handleFetchError(e, [ctx, fetched.page]);
         }
-      } catch (e) {
-        this._log('fetchError', e, [ctx, page]);
-      }
 
-      summaryHelper.addAvgTiming('all', Date.now() - startTime);
+        summaryHelper.addAvgTiming('all', Date.now() - startTime);
 
-      if (successful) {
-        summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+        let failure: ErrorClassification | undefined;
 
-        failCounter.success();
-      } else {
-        summaryHelper.stats.totalErrorCount++;
-        summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+        if (successful) {
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
 
-        if (attemptsLeft <= 0) {
-          summaryHelper.stats.failedPageList.add(page);
+          failCounter.success();
+        } else {
+          failure = this._classifyError(error, ctx, attemptsLeft);
 
-          if (failCounter.fail(page)) {
-            done();
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(page, page, error, failure.attempt);
+
+            if (failCounter.fail(page)) {
+              done();
+            }
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
           }
         }
-      }
 
-      return successful ? false : { page };
-    }, signal);
+        inFlightPages.delete(page);
+
+        return failure ? { retry: { page }, ...failure } : false;
+      },
+      signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          this._saveCheckpoint({
+            position: { nextPage, lastPage },
+            pendingRetries: [...pendingRetries, ...inFlightPages.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: failCounter.toCheckpoint(),
+          });
+        },
+      },
+    );
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
 
     summaryHelper.completed = summaryHelper.completed && failCounter.complete(lastPage);
 
     return summaryHelper.summarize();
   }
 
-  private async _handlePaginationCursorCycle(signal: AbortSignal): Promise<CycleSummary> {
+  private async _handlePaginationCursorCycle(
+    signal: AbortSignal,
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
     if (this.options.paginationType !== PaginationType.Cursor) {
       throw new Error(
         `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.Cursor}"`,
@@ -565,29 +1048,108 @@ export class ScraperFlow<
       TResponse,
       TCursor
     >;
-    const summaryHelper = new CycleSummaryHelper();
-    let nextPageCursor: TCursor | undefined;
-    let nextPageNum = 1;
+    const position = checkpoint?.position as
+      | { chains: CursorChain<TCursor>[]; nextPageNum: number }
+      | undefined;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const inFlightPages = new Map<number, CheckpointPendingRetry>();
+    let chains: CursorChain<TCursor>[];
+    let nextPageNum = position ? position.nextPageNum : 1;
+    let nextChainIndex = 0;
+
+    if (position) {
+      chains = position.chains.map((chain) => ({ ...chain }));
+    } else if (options.resolveCursorSeeds) {
+      try {
+        const seeds = await options.resolveCursorSeeds.call(this.globalContext);
 
-    await this._startFlowOrchestrator(
-      async (ctx, attemptsLeft, done, retry?: { cursor?: TCursor; pageNum: number }) => {
+        if (!Array.isArray(seeds) || !seeds.length) {
+          summaryHelper.endReason = 'resolveError';
+
+          this._log('resolveError', new Error('Cursor seed list is not an array or is empty'));
+
+          return summaryHelper.summarize();
+        }
+
+        chains = seeds.map((seed) => ({ seed, cursor: seed, pageCount: 0, status: 'ready' }));
+      } catch (e) {
+        summaryHelper.endReason = 'resolveError';
+
+        this._log('resolveError', e);
+
+        return summaryHelper.summarize();
+      }
+    } else {
+      chains = [{ seed: undefined, cursor: undefined, pageCount: 0, status: 'ready' }];
+    }
+
+    const updateChainStats = (): void => {
+      if (options.resolveCursorSeeds) {
+        summaryHelper.stats.cursorChains = chains.map(({ seed, pageCount, status }) => ({
+          seed,
+          pageCount,
+          completed: status === 'completed',
+        }));
+      }
+    };
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (
+        ctx,
+        attemptsLeft,
+        done,
+        retry?: { chainIndex: number; cursor?: TCursor; pageNum: number },
+      ) => {
         const startTime = Date.now();
 
+        let chainIndex = -1;
         let cursor: TCursor | undefined;
         let pageNum: number;
 
         if (retry) {
+          chainIndex = retry.chainIndex;
           cursor = retry.cursor;
           pageNum = retry.pageNum;
         } else {
-          cursor = nextPageCursor;
+          // Round robin over the chains waiting for their next page
+          for (let i = 0; i < chains.length; i++) {
+            const index = (nextChainIndex + i) % chains.length;
+
+            if (chains[index]?.status === 'ready') {
+              chainIndex = index;
+              nextChainIndex = index + 1;
+
+              break;
+            }
+          }
+
+          cursor = chains[chainIndex]?.cursor;
           pageNum = nextPageNum++;
         }
 
+        const chain = chains[chainIndex];
+
+        // Should not happen, flows are not started while no chain is ready
+        if (!chain) {
+          return false;
+        }
+
+        chain.status = 'busy';
+
+        if (!retry) {
+          chain.pageCount++;
+        }
+
+        inFlightPages.set(pageNum, { retry: { chainIndex, cursor, pageNum }, attemptsLeft });
+
         let successful = false;
+        let error: unknown;
+
+        const fetched: { page: unknown } = { page: cursor };
 
         try {
-          const response = await options.fetchHandler.call(this.globalContext, ctx, cursor);
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
 
           try {
             const resolvedCursor = await options.resolveCursor.call(
@@ -595,51 +1157,96 @@ export class ScraperFlow<
               ctx,
               response,
             );
+            const stop = await this._isIncrementalStop(options, ctx, response);
 
             successful = true;
 
-            if (resolvedCursor != null) {
-              nextPageCursor = resolvedCursor;
+            if (resolvedCursor != null && !stop) {
+              chain.cursor = resolvedCursor;
+              chain.status = 'ready';
             } else {
-              done();
-
-              summaryHelper.completed = true;
+              chain.status = 'completed';
             }
           } catch (e) {
+            error = e;
+
             this._log('resolveError', e);
           } finally {
-            this._handleResponse(ctx, response);
+            this._handleResponse(ctx, response, fetched.page);
           }
         } catch (e) {
-          this._log('fetchError', e, [ctx, cursor]);
+          error = await this._handleFetchError(e, [ctx, fetched.page]);
         }
 
         summaryHelper.addAvgTiming('all', Date.now() - startTime);
 
+        let failure: ErrorClassification | undefined;
+
         if (successful) {
           summaryHelper.addAvgTiming('successful', Date.now() - startTime);
         } else {
+          failure = this._classifyError(error, ctx, attemptsLeft);
+
           summaryHelper.stats.totalErrorCount++;
           summaryHelper.addAvgTiming('failed', Date.now() - startTime);
 
-          if (attemptsLeft <= 0) {
-            done();
+          if (failure.attemptsLeft <= 0) {
+            // The rest of the chain cannot be reached without this page
+            chain.status = 'failed';
+
+            summaryHelper.addFailedPage(pageNum, cursor, error, failure.attempt);
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
+        }
+
+        inFlightPages.delete(pageNum);
+
+        if (chains.every(({ status }) => status === 'completed' || status === 'failed')) {
+          done();
 
-            summaryHelper.stats.failedPageList.add(pageNum);
+          summaryHelper.completed = chains.every(({ status }) => status === 'completed');
+
+          if (!summaryHelper.completed) {
+            summaryHelper.endReason ??= 'failLimit';
           }
         }
 
-        return successful ? false : { cursor, pageNum };
+        return failure ? { retry: { chainIndex, cursor, pageNum }, ...failure } : false;
       },
       signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          updateChainStats();
+
+          this._saveCheckpoint({
+            position: { chains: chains.map((chain) => ({ ...chain })), nextPageNum },
+            pendingRetries: [...pendingRetries, ...inFlightPages.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: { pageFailTimeline: [], totalPageFails: 0, consecutivePageFails: 0 },
+          });
+        },
+      },
+      { isIdle: () => !chains.some(({ status }) => status === 'ready') },
     );
 
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
+
+    updateChainStats();
+
     summaryHelper.stats.totalPageCount = nextPageNum - 1;
 
     return summaryHelper.summarize();
   }
 
-  private async _handlePaginationListCycle(signal: AbortSignal): Promise<CycleSummary> {
+  private async _handlePaginationListCycle(
+    signal: AbortSignal,
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
     if (this.options.paginationType !== PaginationType.List) {
       throw new Error(
         `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.List}"`,
@@ -652,125 +1259,1067 @@ export class ScraperFlow<
       TResponse,
       TPageListItem
     >;
-    const summaryHelper = new CycleSummaryHelper();
-    const failCounter = this._initFailCounter();
-    let pageListItems: TPageListItem[];
-    let nextPageIndex = 0;
+    const position = checkpoint?.position as
+      | {
+          nextPageIndex: number;
+          nextListIndex?: number;
+          queue?: QueuedListItem<TPageListItem>[];
+        }
+      | undefined;
+    const state = this.#state;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const failCounter = this._initFailCounter(summaryHelper, checkpoint?.failCounter);
+    const inFlightItems = new Map<number, CheckpointPendingRetry>();
+    // Items added with `enqueue`, and the list items if `resolvePriority` is set
+    const queue = new PriorityQueue<TPageListItem>();
+    let pageListItems: TPageListItem[] | LookAheadIterator<TPageListItem>;
+    let nextPageIndex = position ? position.nextPageIndex : 0;
+    let nextListIndex = position ? position.nextListIndex ?? position.nextPageIndex : 0;
+    let listDone = false;
+    // Items handed out, which are not yet fetched or failed for good
+    let pendingItemCount = checkpoint ? checkpoint.pendingRetries.length : 0;
 
     try {
-      pageListItems = await options.resolveList.call(this.globalContext);
+      const pageList = options.resolveList.call(this.globalContext);
 
-      if (!Array.isArray(pageListItems) || !pageListItems.length) {
-        this._log('resolveError', new Error('Page list is not an array or is empty'));
+      if (isAsyncIterable(pageList)) {
+        pageListItems = new LookAheadIterator(pageList, options.listLookAhead);
 
-        return summaryHelper.summarize();
+        // Skipping the items handed out before the interruption
+        for (let i = 0; i < nextListIndex; i++) {
+          if ((await pageListItems.next()).done) break;
+        }
+      } else {
+        pageListItems = await pageList;
+
+        if (!Array.isArray(pageListItems) || !pageListItems.length) {
+          summaryHelper.endReason = 'resolveError';
+
+          this._log('resolveError', new Error('Page list is not an array or is empty'));
+
+          return summaryHelper.summarize();
+        }
+
+        listDone = nextListIndex >= pageListItems.length;
       }
     } catch (e) {
+      summaryHelper.endReason = 'resolveError';
+
       this._log('resolveError', e);
 
       return summaryHelper.summarize();
     }
 
-    await this._startFlowOrchestrator(
-      async (ctx, attemptsLeft, done, retry?: { item: TPageListItem; index: number }) => {
+    const resolvePriority = (item: TPageListItem): number => {
+      if (!options.resolvePriority) return 0;
+
+      try {
+        const priority = options.resolvePriority.call(this.globalContext, item);
+
+        return Number.isFinite(priority) ? priority : 0;
+      } catch (e) {
+        this._log('resolveError', e);
+
+        return 0;
+      }
+    };
+    const pullListItem = async (): Promise<{ item: TPageListItem } | undefined> => {
+      if (listDone) return undefined;
+
+      if (pageListItems instanceof LookAheadIterator) {
+        try {
+          const result = await pageListItems.next();
+
+          if (!result.done) {
+            nextListIndex++;
+
+            return { item: result.value };
+          }
+        } catch (e) {
+          // The rest of the list cannot be reached
+          summaryHelper.aborted = true;
+          summaryHelper.endReason ??= 'resolveError';
+
+          this._log('resolveError', e);
+        }
+
+        listDone = true;
+
+        return undefined;
+      }
+
+      const index = nextListIndex++;
+
+      if (nextListIndex >= pageListItems.length) {
+        listDone = true;
+      }
+
+      if (index < pageListItems.length) {
+        return { item: pageListItems[index] as TPageListItem }; // Existence is checked by index
+      }
+
+      return undefined;
+    };
+    const shiftQueue = (): QueuedListItem<TPageListItem> | undefined => {
+      const queuedItem = queue.shift();
+
+      return queuedItem && { item: queuedItem.value, priority: queuedItem.priority };
+    };
+    const takeNextItem = async (): Promise<QueuedListItem<TPageListItem> | undefined> => {
+      if (options.resolvePriority) {
+        // The items of an async iterable are ordered within the look-ahead
+        while (!listDone && queue.size < options.listLookAhead) {
+          const listItem = await pullListItem();
+
+          if (!listItem) break;
+
+          queue.push(listItem.item, resolvePriority(listItem.item));
+        }
+
+        return shiftQueue();
+      }
+
+      // Enqueued items with a priority above the list items go first
+      if ((queue.peekPriority() ?? 0) > 0) {
+        return shiftQueue();
+      }
+
+      const listItem = await pullListItem();
+
+      return listItem ? { item: listItem.item, priority: 0 } : shiftQueue();
+    };
+    // Only the awaited response handlers are waited for, the cycle can end before the detached ones settle
+    const isDrained = (): boolean =>
+      listDone &&
+      !queue.size &&
+      pendingItemCount <= 0 &&
+      (this.options.responseHandling !== 'awaited' || !state.pendingResponses.size);
+
+    for (const { item, priority } of position?.queue ?? []) {
+      queue.push(item, priority);
+    }
+
+    // All list items are known, so they are ordered at once
+    if (options.resolvePriority && Array.isArray(pageListItems)) {
+      for (const item of pageListItems.slice(nextListIndex)) {
+        queue.push(item, resolvePriority(item));
+      }
+
+      nextListIndex = pageListItems.length;
+      listDone = true;
+    }
+
+    state.listQueue = {
+      enqueue: (items, priority) => {
+        for (const item of items) {
+          queue.push(item, priority ?? resolvePriority(item));
+        }
+      },
+    };
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (
+        ctx,
+        attemptsLeft,
+        done,
+        retry?: { item: TPageListItem; index: number; priority?: number },
+      ) => {
         const startTime = Date.now();
 
         let item: TPageListItem;
         let index: number;
+        let priority: number;
 
         if (retry) {
           item = retry.item;
           index = retry.index;
+          priority = retry.priority ?? 0;
         } else {
-          index = nextPageIndex++;
-          item = pageListItems[index] as TPageListItem; // Below we check existence by index and length
-
-          if (nextPageIndex >= pageListItems.length) {
-            done();
+          const nextItem = await takeNextItem();
 
-            summaryHelper.completed = true;
-          }
-          if (index >= pageListItems.length) {
+          // The list has ended while waiting for the next item
+          if (!nextItem) {
             return false;
           }
+
+          item = nextItem.item;
+          priority = nextItem.priority;
+          index = nextPageIndex++;
+          pendingItemCount++;
         }
 
+        inFlightItems.set(index, { retry: { item, index, priority }, attemptsLeft });
+
+        const fetched: { page: unknown } = { page: item };
+
         try {
-          const response = await options.fetchHandler.call(this.globalContext, ctx, item);
-          this._handleResponse(ctx, response);
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+          this._handleResponse(ctx, response, fetched.page);
 
           summaryHelper.addAvgTiming('successful', Date.now() - startTime);
 
           failCounter.success();
+          pendingItemCount--;
 
           return false;
         } catch (e) {
-          this._log('fetchError', e, [ctx, item]);
+          const error = await this._handleFetchError(e, [ctx, fetched.page]);
+          const failure = this._classifyError(error, ctx, attemptsLeft);
 
           summaryHelper.stats.totalErrorCount++;
           summaryHelper.addAvgTiming('failed', Date.now() - startTime);
 
-          if (attemptsLeft <= 0) {
-            summaryHelper.stats.failedPageList.add(index);
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(index, item, error, failure.attempt);
 
             if (failCounter.fail()) {
               done();
             }
           }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
+          if (failure.attemptsLeft <= 0 || failure.fatal) {
+            pendingItemCount--;
+          }
 
-          return { item, index };
+          return { retry: { item, index, priority }, ...failure };
         } finally {
+          inFlightItems.delete(index);
+
           summaryHelper.addAvgTiming('all', Date.now() - startTime);
         }
       },
       signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          this._saveCheckpoint({
+            position: {
+              nextPageIndex,
+              nextListIndex,
+              queue: queue.toArray().map(({ value, priority }) => ({ item: value, priority })),
+            },
+            pendingRetries: [...pendingRetries, ...inFlightItems.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: failCounter.toCheckpoint(),
+          });
+        },
+      },
+      {
+        isIdle: () => listDone && !queue.size,
+        isDrained,
+        resolveRetryPriority: (retry) => retry.priority ?? 0,
+      },
     );
 
+    state.listQueue = undefined;
+
+    if (pageListItems instanceof LookAheadIterator) {
+      try {
+        await pageListItems.close();
+      } catch (e) {
+        this._log('resolveError', e);
+      }
+    }
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
+
     summaryHelper.stats.totalPageCount = nextPageIndex;
-    summaryHelper.completed = summaryHelper.completed && failCounter.complete();
+    summaryHelper.completed = isDrained() && failCounter.complete();
 
     return summaryHelper.summarize();
   }
 
-  private _startFlowOrchestrator<TRetry extends Record<string, unknown> | true>(
-    executor: (
-      ctx: TFlowContext,
-      attemptsLeft: number,
-      done: () => void,
-      retry?: TRetry,
-    ) => Promise<TRetry | false>,
+  private async _handlePaginationOffsetCycle(
     signal: AbortSignal,
-  ): Promise<void> {
-    return new Promise((resolve) => {
-      if (signal.aborted) {
-        return resolve();
-      }
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
+    if (this.options.paginationType !== PaginationType.Offset) {
+      throw new Error(
+        `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.Offset}"`,
+      );
+    }
+
+    const options = this.options as ValidatedPaginationForOffsetOptions<
+      TThisContext,
+      TFlowContext,
+      TResponse
+    >;
+    const position = checkpoint?.position as { nextOffset: number; total?: number } | undefined;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const failCounter = this._initFailCounter(summaryHelper, checkpoint?.failCounter);
+    const inFlightPages = new Map<number, CheckpointPendingRetry>();
+    let nextOffset = position ? position.nextOffset : 0;
+    let total = position?.total;
+
+    // Fetched ahead, past the last item. The first page is fetched even if there are no items
+    const isPastEnd = (offset: number): boolean =>
+      typeof total !== 'undefined' && offset >= total && offset > 0;
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done, retry?: { page: OffsetPage }) => {
+        const startTime = Date.now();
+
+        let page: OffsetPage;
+
+        if (retry) {
+          page = retry.page;
+        } else {
+          page = { offset: nextOffset, limit: options.pageSize };
+          nextOffset += page.limit;
+
+          if (typeof total !== 'undefined' && nextOffset >= total) {
+            done();
+
+            summaryHelper.completed = true;
+          }
+        }
+
+        inFlightPages.set(page.offset, { retry: { page }, attemptsLeft });
+
+        let successful = false;
+        let error: unknown;
+
+        const fetched: { page: unknown } = { page };
+
+        try {
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+
+          try {
+            if (options.resolveTotal) {
+              const resolvedTotal = await options.resolveTotal.call(
+                this.globalContext,
+                ctx,
+                response,
+              );
+
+              if (!Number.isFinite(resolvedTotal)) {
+                throw new Error(`Invalid value returned "${resolvedTotal}"`);
+              }
+
+              total = Math.max(0, resolvedTotal);
+            }
+            if (options.resolveItemCount) {
+              const itemCount = await options.resolveItemCount.call(
+                this.globalContext,
+                ctx,
+                response,
+              );
+
+              if (!Number.isFinite(itemCount)) {
+                throw new Error(`Invalid value returned "${itemCount}"`);
+              }
+
+              // A short page is the last one
+              if (itemCount < page.limit) {
+                total = Math.min(
+                  total ?? Number.POSITIVE_INFINITY,
+                  page.offset + Math.max(0, itemCount),
+                );
+              }
+            }
+
+            successful = true;
+
+            if (typeof total !== 'undefined') {
+              summaryHelper.stats.totalPageCount = total;
+
+              if (nextOffset >= total) {
+                done();
+
+                summaryHelper.completed = true;
+              }
+            }
+          } catch (e) {
+            error = e;
+
+            this._log('resolveError', e);
+          } finally {
+            this._handleResponse(ctx, response, fetched.page);
+          }
+        } catch (e) {
+          error = await this._handleFetchError(e, [ctx, fetched.page]);
+        }
+
+        summaryHelper.addAvgTiming('all', Date.now() - startTime);
+
+        let failure: ErrorClassification | undefined;
+
+        if (successful) {
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+
+          failCounter.success();
+        } else {
+          failure = this._classifyError(error, ctx, attemptsLeft);
+
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(page.offset, page, error, failure.attempt);
+
+            if (failCounter.fail(page.offset)) {
+              done();
+            }
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
+        }
+
+        inFlightPages.delete(page.offset);
+
+        return failure ? { retry: { page }, ...failure } : false;
+      },
+      signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          this._saveCheckpoint({
+            position: { nextOffset, total },
+            pendingRetries: [...pendingRetries, ...inFlightPages.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: failCounter.toCheckpoint(),
+          });
+        },
+      },
+      {
+        isIdle: () => isPastEnd(nextOffset),
+        isDrained: () => isPastEnd(nextOffset),
+        isRetryObsolete: (retry) => isPastEnd(retry.page.offset),
+      },
+    );
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
+
+    summaryHelper.completed =
+      summaryHelper.completed &&
+      failCounter.complete(typeof total !== 'undefined' ? total - 1 : undefined);
+
+    return summaryHelper.summarize();
+  }
+
+  private async _handlePaginationCrawlCycle(
+    signal: AbortSignal,
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
+    if (this.options.paginationType !== PaginationType.Crawl) {
+      throw new Error(
+        `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.Crawl}"`,
+      );
+    }
+
+    const options = this.options as ValidatedPaginationForCrawlOptions<
+      TThisContext,
+      TFlowContext,
+      TResponse,
+      TPageListItem
+    >;
+    const position = checkpoint?.position as
+      | { queue: CrawlQueueItem<TPageListItem>[]; seenKeys: unknown[]; nextIndex: number }
+      | undefined;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const failCounter = this._initFailCounter(summaryHelper, checkpoint?.failCounter);
+    const crawlStats = (summaryHelper.stats.crawl ??= {
+      discoveredCount: 0,
+      fetchedCount: 0,
+      skippedCount: 0,
+      depthReached: 0,
+    });
+    const inFlightItems = new Map<number, CheckpointPendingRetry>();
+    const queue = position ? [...position.queue] : [];
+    const seenKeys = new Set(position?.seenKeys);
+    let nextIndex = position ? position.nextIndex : 0;
+    // Items taken from the queue, which are not yet fetched or failed for good
+    let pendingItemCount = checkpoint ? checkpoint.pendingRetries.length : 0;
+
+    const enqueue = (items: TPageListItem[], depth: number): void => {
+      for (const item of items) {
+        crawlStats.discoveredCount++;
+
+        const key = options.resolveKey ? options.resolveKey.call(this.globalContext, item) : item;
+
+        if (seenKeys.has(key) || nextIndex >= options.maxItems) {
+          crawlStats.skippedCount++;
+
+          continue;
+        }
+
+        seenKeys.add(key);
+        queue.push({ item, depth, index: nextIndex++ });
+      }
+    };
+
+    // Resumed cycle has the queue saved in the checkpoint
+    if (!position) {
+      try {
+        const seeds = await options.resolveSeeds.call(this.globalContext);
+
+        if (!Array.isArray(seeds) || !seeds.length) {
+          summaryHelper.endReason = 'resolveError';
+
+          this._log('resolveError', new Error('Seed list is not an array or is empty'));
+
+          return summaryHelper.summarize();
+        }
+
+        enqueue(seeds, 0);
+      } catch (e) {
+        summaryHelper.endReason = 'resolveError';
+
+        this._log('resolveError', e);
+
+        return summaryHelper.summarize();
+      }
+    }
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done, retry?: { queueItem: CrawlQueueItem<TPageListItem> }) => {
+        const startTime = Date.now();
+
+        let queueItem: CrawlQueueItem<TPageListItem>;
+
+        if (retry) {
+          queueItem = retry.queueItem;
+        } else {
+          const nextQueueItem = queue.shift();
+
+          // Should not happen, flows are not started while the queue is empty
+          if (!nextQueueItem) {
+            return false;
+          }
+
+          queueItem = nextQueueItem;
+          pendingItemCount++;
+        }
+
+        const { item, depth, index } = queueItem;
+
+        inFlightItems.set(index, { retry: { queueItem }, attemptsLeft });
+
+        let successful = false;
+        let error: unknown;
+
+        const fetched: { page: unknown } = { page: item };
+
+        try {
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+
+          try {
+            if (depth < options.maxDepth) {
+              const links = await options.resolveLinks.call(
+                this.globalContext,
+                ctx,
+                response,
+                item,
+              );
+
+              if (!Array.isArray(links)) {
+                throw new Error(`Invalid value returned "${String(links)}"`);
+              }
+
+              enqueue(links, depth + 1);
+            }
+
+            successful = true;
+
+            crawlStats.fetchedCount++;
+            crawlStats.depthReached = Math.max(crawlStats.depthReached, depth);
+          } catch (e) {
+            error = e;
+
+            this._log('resolveError', e);
+          } finally {
+            this._handleResponse(ctx, response, fetched.page);
+          }
+        } catch (e) {
+          error = await this._handleFetchError(e, [ctx, fetched.page]);
+        }
+
+        summaryHelper.addAvgTiming('all', Date.now() - startTime);
+
+        let failure: ErrorClassification | undefined;
+
+        if (successful) {
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+
+          failCounter.success();
+        } else {
+          failure = this._classifyError(error, ctx, attemptsLeft);
+
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(index, item, error, failure.attempt);
+
+            if (failCounter.fail()) {
+              done();
+            }
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
+        }
+
+        inFlightItems.delete(index);
+
+        if (!failure || failure.attemptsLeft <= 0 || failure.fatal) {
+          pendingItemCount--;
+        }
+
+        // Nothing left to fetch, and nothing in progress that could discover more
+        if (!queue.length && pendingItemCount <= 0) {
+          done();
+
+          summaryHelper.completed = true;
+        }
+
+        return failure ? { retry: { queueItem }, ...failure } : false;
+      },
+      signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          this._saveCheckpoint({
+            position: { queue: [...queue], seenKeys: [...seenKeys], nextIndex },
+            pendingRetries: [...pendingRetries, ...inFlightItems.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: failCounter.toCheckpoint(),
+          });
+        },
+      },
+      { isIdle: () => !queue.length },
+    );
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
+
+    summaryHelper.stats.totalPageCount = nextIndex - queue.length;
+    summaryHelper.completed = summaryHelper.completed && failCounter.complete();
+
+    return summaryHelper.summarize();
+  }
+
+  private async _handlePaginationTimeWindowCycle(
+    signal: AbortSignal,
+    checkpoint?: CycleCheckpoint,
+  ): Promise<CycleSummary> {
+    if (this.options.paginationType !== PaginationType.TimeWindow) {
+      throw new Error(
+        `Incorrect pagination type "${this.options.paginationType}" for this handler "${PaginationType.TimeWindow}"`,
+      );
+    }
+
+    const options = this.options as ValidatedPaginationForTimeWindowOptions<
+      TThisContext,
+      TFlowContext,
+      TResponse
+    >;
+    const position = checkpoint?.position as
+      | { nextStart: number; to: number; queue: TimeWindowPage[] }
+      | undefined;
+    const summaryHelper = this._initSummaryHelper(checkpoint?.summary);
+    const failCounter = this._initFailCounter(summaryHelper, checkpoint?.failCounter);
+    const timeWindowStats = (summaryHelper.stats.timeWindow ??= {
+      windowCount: 0,
+      splitCount: 0,
+      failedWindowList: [],
+    });
+    const inFlightWindows = new Map<number, CheckpointPendingRetry>();
+    // Halves of the split windows, handed out before the next initial window
+    const queue = position ? [...position.queue] : [];
+    const to = position
+      ? position.to
+      : typeof options.to !== 'undefined'
+      ? Number(options.to)
+      : Date.now();
+    let nextStart = position ? position.nextStart : Number(options.from);
+    // Windows handed out, which are not yet fetched, split or failed for good
+    let pendingWindowCount = checkpoint ? checkpoint.pendingRetries.length : 0;
+
+    if (nextStart >= to && !queue.length && !pendingWindowCount) {
+      summaryHelper.completed = true;
+
+      return summaryHelper.summarize();
+    }
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done, retry?: { window: TimeWindowPage }) => {
+        const startTime = Date.now();
+
+        let window: TimeWindowPage;
+
+        if (retry) {
+          window = retry.window;
+        } else {
+          const splitWindow = queue.shift();
+
+          if (splitWindow) {
+            window = splitWindow;
+          } else if (nextStart < to) {
+            window = { start: nextStart, end: Math.min(nextStart + options.windowSize, to) };
+            nextStart = window.end;
+          } else {
+            // Should not happen, flows are not started while there are no windows left
+            return false;
+          }
+
+          pendingWindowCount++;
+        }
+
+        inFlightWindows.set(window.start, { retry: { window }, attemptsLeft });
+
+        let successful = false;
+        let split = false;
+        let error: unknown;
+
+        const fetched: { page: unknown } = { page: window };
+
+        try {
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+
+          try {
+            const isTruncated = options.resolveIsTruncated
+              ? await options.resolveIsTruncated.call(this.globalContext, ctx, response, window)
+              : false;
+
+            if (isTruncated) {
+              if (window.end - window.start < options.minWindowSize * 2) {
+                throw new SkipPageError(
+                  `Window "${window.start} - ${window.end}" is truncated, but too small to split`,
+                );
+              }
+
+              const middle = window.start + Math.floor((window.end - window.start) / 2);
+
+              queue.unshift(
+                { start: window.start, end: middle },
+                { start: middle, end: window.end },
+              );
+
+              split = true;
+              timeWindowStats.splitCount++;
+            } else {
+              timeWindowStats.windowCount++;
+            }
+
+            successful = true;
+          } catch (e) {
+            error = e;
+
+            this._log('resolveError', e);
+          } finally {
+            if (!split) {
+              this._handleResponse(ctx, response, fetched.page);
+            }
+          }
+        } catch (e) {
+          error = await this._handleFetchError(e, [ctx, fetched.page]);
+        }
+
+        summaryHelper.addAvgTiming('all', Date.now() - startTime);
+
+        let failure: ErrorClassification | undefined;
+
+        if (successful) {
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+
+          failCounter.success();
+        } else {
+          failure = this._classifyError(error, ctx, attemptsLeft);
+
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(window.start, window, error, failure.attempt);
+            timeWindowStats.failedWindowList.push(window);
+
+            if (failCounter.fail()) {
+              done();
+            }
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
+        }
+
+        inFlightWindows.delete(window.start);
+
+        if (!failure || failure.attemptsLeft <= 0 || failure.fatal) {
+          pendingWindowCount--;
+        }
+
+        // Nothing left to fetch, and nothing in progress that could be split
+        if (!queue.length && nextStart >= to && pendingWindowCount <= 0) {
+          done();
+
+          summaryHelper.completed = true;
+        }
+
+        return failure ? { retry: { window }, ...failure } : false;
+      },
+      signal,
+      {
+        pendingRetries: checkpoint?.pendingRetries,
+        save: (pendingRetries) => {
+          this._saveCheckpoint({
+            position: { nextStart, to, queue: [...queue] },
+            pendingRetries: [...pendingRetries, ...inFlightWindows.values()],
+            summary: summaryHelper.toCheckpoint(),
+            failCounter: failCounter.toCheckpoint(),
+          });
+        },
+      },
+      { isIdle: () => !queue.length && nextStart >= to },
+    );
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
+
+    summaryHelper.stats.totalPageCount =
+      timeWindowStats.windowCount +
+      timeWindowStats.splitCount +
+      timeWindowStats.failedWindowList.length;
+    summaryHelper.completed = summaryHelper.completed && failCounter.complete();
+
+    return summaryHelper.summarize();
+  }
+
+  /**
+   * Fetch the failed pages again, without resolving anything else.
+   */
+  private async _handleRepairCycle(
+    signal: AbortSignal,
+    deadLetters: readonly DeadLetter[],
+  ): Promise<CycleSummary> {
+    const summaryHelper = this._initSummaryHelper();
+    const failCounter = this._initFailCounter(summaryHelper);
+    let nextIndex = 0;
+
+    summaryHelper.stats.totalPageCount = deadLetters.length;
+
+    if (!deadLetters.length) {
+      summaryHelper.completed = true;
+
+      return summaryHelper.summarize();
+    }
+
+    const { contextsTripped } = await this._startFlowOrchestrator(
+      async (ctx, attemptsLeft, done, retry?: { deadLetter: DeadLetter }) => {
+        const startTime = Date.now();
+
+        let deadLetter: DeadLetter;
+
+        if (retry) {
+          deadLetter = retry.deadLetter;
+        } else {
+          const nextDeadLetter = deadLetters[nextIndex++];
+
+          if (nextIndex >= deadLetters.length) {
+            done();
+
+            summaryHelper.completed = true;
+          }
+          if (!nextDeadLetter) {
+            return false;
+          }
+
+          deadLetter = nextDeadLetter;
+        }
+
+        const fetched: { page: unknown } = { page: deadLetter.page };
+
+        try {
+          const response = await this._fetchPage(ctx, fetched);
+          await this._validateResponse(ctx, response, fetched.page);
+          this._handleResponse(ctx, response, fetched.page);
+
+          summaryHelper.addAvgTiming('successful', Date.now() - startTime);
+
+          failCounter.success();
+
+          return false;
+        } catch (e) {
+          const error = await this._handleFetchError(e, [ctx, fetched.page]);
+          const failure = this._classifyError(error, ctx, attemptsLeft);
+
+          summaryHelper.stats.totalErrorCount++;
+          summaryHelper.addAvgTiming('failed', Date.now() - startTime);
+
+          if (failure.attemptsLeft <= 0) {
+            summaryHelper.addFailedPage(
+              deadLetter.id,
+              deadLetter.page,
+              error,
+              deadLetter.attempts + failure.attempt,
+            );
+
+            if (failCounter.fail()) {
+              done();
+            }
+          }
+          if (failure.fatal) {
+            summaryHelper.aborted = true;
+          }
+
+          return { retry: { deadLetter }, ...failure };
+        } finally {
+          summaryHelper.addAvgTiming('all', Date.now() - startTime);
+        }
+      },
+      signal,
+    );
+
+    if (contextsTripped) {
+      summaryHelper.aborted = true;
+    }
+
+    summaryHelper.completed = summaryHelper.completed && failCounter.complete();
+
+    return summaryHelper.summarize();
+  }
+
+  private _startFlowOrchestrator<TRetry extends Record<string, unknown> | true>(
+    executor: (
+      ctx: TFlowContext,
+      attemptsLeft: number,
+      done: () => void,
+      retry?: TRetry,
+    ) => Promise<(ErrorClassification & { retry: TRetry }) | false>,
+    signal: AbortSignal,
+    checkpoint?: {
+      /**
+       * Pending retries restored from a checkpoint.
+       */
+      pendingRetries?: readonly CheckpointPendingRetry[] | undefined;
+      /**
+       * Called periodically, and once more if the cycle is aborted, to save a checkpoint.
+       */
+      save: (pendingRetries: CheckpointPendingRetry[]) => void;
+    },
+    work?: {
+      /**
+       * If there is nothing to hand out for now. New pages are not handed out while idle.
+       */
+      isIdle: () => boolean;
+      /**
+       * If the cycle can end, once no pages are being fetched or waiting for a retry.
+       */
+      isDrained?: () => boolean;
+      /**
+       * Retries with a higher priority are handed out first.
+       */
+      resolveRetryPriority?: (retry: TRetry) => number;
+      /**
+       * If the retry is not needed anymore. Such retries are dropped without being fetched.
+       */
+      isRetryObsolete?: (retry: TRetry) => boolean;
+    },
+  ): Promise<OrchestratorResult> {
+    return new Promise<OrchestratorResult>((resolve) => {
+      if (signal.aborted) {
+        if (this.#state.summaryHelper) {
+          this.#state.summaryHelper.endReason ??= 'forcedStop';
+        }
+
+        return resolve({ contextsTripped: false });
+      }
 
       signal.addEventListener('abort', finish, { once: true });
 
       const state = this.#state;
+      const cycleBudget = this.options.cycleBudget;
       const flows = new Set<TFlowContext>();
       const pendingRetries: {
         retry?: TRetry;
         flows: Set<TFlowContext>;
         attemptsLeft: number;
-      }[] = [];
+        /**
+         * Unix timestamp before which the retry should not be handed out, in `ms`.
+         */
+        notBefore: number;
+      }[] = (checkpoint?.pendingRetries ?? []).map(({ retry, attemptsLeft }) => ({
+        retry: retry as TRetry,
+        flows: new Set(),
+        attemptsLeft,
+        notBefore: 0,
+      }));
       const flowsLastExecution = new Map<TFlowContext, { time: number }>();
       let firstPageReady = false;
       let executorDone = false;
       let resolved = false;
+      let fatalError = false;
+      let contextsTripped = false;
+      let budgetExceeded = false;
+      let pageCount = 0;
+      let errorCount = 0;
+      let retryTimer: { timeoutId: NodeJS.Timeout; time: number } | undefined;
+
+      const saveCheckpoint = (): void => {
+        checkpoint?.save(
+          pendingRetries.map(({ retry, attemptsLeft }) => ({ retry, attemptsLeft })),
+        );
+      };
+      const checkpointTimer =
+        checkpoint && this.options.checkpointStore
+          ? setInterval(saveCheckpoint, this.options.checkpointInterval)
+          : undefined;
+
+      // The pages being fetched are finished, but nothing new is handed out
+      const exceedBudget = (): void => {
+        if (budgetExceeded) return;
+
+        budgetExceeded = true;
+        executorDone = true;
+        pendingRetries.length = 0;
+
+        if (state.summaryHelper) {
+          state.summaryHelper.endReason ??= 'budgetExceeded';
+        }
+
+        process.nextTick(startFlows);
+      };
+      const budgetDeadline = Date.now() + cycleBudget.maxDurationMs;
+      let budgetTimer: NodeJS.Timeout | undefined;
+
+      // Re-armed in steps, because a longer timeout overflows and fires right away
+      const armBudgetTimer = (): void => {
+        const remainingTime = budgetDeadline - Date.now();
+
+        budgetTimer =
+          remainingTime > MAX_TIMEOUT
+            ? setTimeout(armBudgetTimer, MAX_TIMEOUT)
+            : setTimeout(exceedBudget, remainingTime);
+      };
+
+      if (Number.isFinite(cycleBudget.maxDurationMs)) {
+        armBudgetTimer();
+      }
 
       const handleFlowExecution = async (
         ctx: TFlowContext,
         pendingRetry?: (typeof pendingRetries)[number],
       ): Promise<void> => {
         const lastExecution = flowsLastExecution.get(ctx);
+        let canceled = false;
 
         if (lastExecution) {
           const elapsedTime = Date.now() - lastExecution.time;
 
           const interval = this._computeInterval('interval', ctx);
-          let canceled = false;
 
           if (this.options.intervalStrategy === 'dynamic') {
             const dynamicInterval = interval - elapsedTime;
@@ -781,39 +2330,101 @@ export class ScraperFlow<
           } else if (interval > 0) {
             canceled = await sleep(interval, signal);
           }
+        }
 
-          lastExecution.time = Date.now();
+        if (!canceled) {
+          canceled = await this._waitForResponseStreams(signal);
+        }
 
-          if (canceled || (executorDone && !pendingRetry)) {
-            flows.delete(ctx);
-            process.nextTick(startFlows);
+        let responseSlotAcquired = false;
 
-            return;
-          }
+        if (!canceled) {
+          canceled = await this._acquireResponseSlot(signal);
+          responseSlotAcquired = !canceled;
+        }
+        const isSkipped = (): boolean =>
+          state.paused ||
+          budgetExceeded ||
+          ((executorDone || work?.isIdle()) && !pendingRetry) ||
+          !!(pendingRetry?.retry && work?.isRetryObsolete?.(pendingRetry.retry));
+
+        // Acquired last, so the flows waiting for a response slot do not hold the tokens and fire together,
+        // and the skipped flows do not take the tokens
+        if (!canceled && !isSkipped()) {
+          canceled = await (this.options.rateLimiter ?? state.rateLimiter).acquire(signal);
+        }
+
+        if (lastExecution) {
+          lastExecution.time = Date.now();
         } else {
           flowsLastExecution.set(ctx, {
             time: Date.now(),
           });
         }
 
+        if (canceled || isSkipped()) {
+          if (pendingRetry && !canceled && !budgetExceeded) {
+            // Returning the retry to the queue, to be handed out again after resume or dropped if obsolete
+            pendingRetries.unshift(pendingRetry);
+          }
+          if (responseSlotAcquired) {
+            this._releaseResponseSlot();
+          }
+
+          flows.delete(ctx);
+          process.nextTick(startFlows);
+
+          return;
+        }
+
         const attemptsLeft = pendingRetry
           ? pendingRetry.attemptsLeft
           : this.options.errorHandlingPolicy.retryLimit;
 
+        const startTime = Date.now();
+
+        if (!pendingRetry && ++pageCount >= cycleBudget.maxPages) {
+          exceedBudget();
+        }
+
         // We assume that executor does not throw/reject
-        const retry = await executor(ctx, attemptsLeft, done, pendingRetry?.retry);
+        const failure = await executor(ctx, attemptsLeft, done, pendingRetry?.retry);
 
-        if (!retry) {
+        // The response handler call, if any, is pending by now
+        this._releaseResponseSlot();
+
+        this._recordFlowResult(ctx, !failure, !!pendingRetry, Date.now() - startTime);
+
+        if (!failure) {
           firstPageReady = true;
-        } else if (attemptsLeft > 0) {
+        } else if (failure.fatal) {
+          // A fatal error ends the cycle without handling the pending retries
+          fatalError = true;
+
+          if (state.summaryHelper) {
+            state.summaryHelper.endReason = 'fatalError';
+          }
+
+          executorDone = true;
+          pendingRetries.length = 0;
+        } else if (failure.attemptsLeft > 0 && !fatalError) {
+          const notBefore =
+            Date.now() +
+            (failure.retryAfter ??
+              this._computeRetryDelay(
+                this.options.errorHandlingPolicy.retryLimit - failure.attemptsLeft + 1,
+              ));
+
           if (pendingRetry) {
-            pendingRetry.retry = retry;
-            pendingRetry.attemptsLeft = attemptsLeft - 1;
+            pendingRetry.retry = failure.retry;
+            pendingRetry.attemptsLeft = failure.attemptsLeft - 1;
+            pendingRetry.notBefore = notBefore;
           } else {
             pendingRetry = {
-              retry,
+              retry: failure.retry,
               flows: new Set(),
-              attemptsLeft: attemptsLeft - 1,
+              attemptsLeft: failure.attemptsLeft - 1,
+              notBefore,
             };
           }
 
@@ -821,6 +2432,10 @@ export class ScraperFlow<
           pendingRetries.push(pendingRetry);
         }
 
+        if (failure && ++errorCount >= cycleBudget.maxErrors) {
+          exceedBudget();
+        }
+
         flows.delete(ctx);
         process.nextTick(startFlows);
       };
@@ -828,19 +2443,72 @@ export class ScraperFlow<
       const startFlows = (): void => {
         if (resolved) return;
 
+        const isRetryObsolete = work?.isRetryObsolete;
+
+        if (isRetryObsolete) {
+          const neededRetries = pendingRetries.filter(
+            ({ retry }) => !retry || !isRetryObsolete(retry),
+          );
+
+          pendingRetries.splice(0, pendingRetries.length, ...neededRetries);
+        }
+
+        if (!executorDone && !flows.size && !pendingRetries.length && work?.isDrained?.()) {
+          executorDone = true;
+        }
+
         if (executorDone && !flows.size && !pendingRetries.length) {
           return finish();
         }
 
+        if (state.paused) {
+          return; // Will be called again on resume
+        }
+
         if (!this._updateFlowsContexts()) {
           return; // An abort signal has been sent, which should end the execution
         }
 
+        // Tripped contexts are left out of scheduling until their cooldown ends
+        const trippedContexts = this._getTrippedContexts();
+
+        if (trippedContexts.size) {
+          const halfOpenTime = Math.min(
+            ...[...trippedContexts].map(
+              (ctx) => state.circuitBreakers.get(ctx)?.trippedUntil ?? Date.now(),
+            ),
+          );
+
+          // The cycle waits for the first trial request, unless the cooldown outlasts the cycle budget
+          if (
+            trippedContexts.size >= state.flowsContexts.length &&
+            !flows.size &&
+            halfOpenTime >= budgetDeadline
+          ) {
+            contextsTripped = true;
+            executorDone = true;
+            pendingRetries.length = 0;
+
+            if (state.summaryHelper) {
+              state.summaryHelper.endReason ??= 'contextError';
+            }
+
+            this._log('generalError', new Error('All flow contexts are tripped'));
+
+            return finish();
+          }
+
+          scheduleRetryTimer(halfOpenTime);
+        }
+
         let { concurrency, concurrencySupported } = this._getConcurrencyOptions();
 
         if (
-          this.options.paginationType === PaginationType.TotalPages &&
-          !this.options.paginationPrefetch &&
+          ((this.options.paginationType === PaginationType.TotalPages &&
+            !this.options.paginationPrefetch) ||
+            (this.options.paginationType === PaginationType.Offset &&
+              !this.options.paginationPrefetch &&
+              typeof this.options.resolveTotal !== 'undefined')) &&
           !firstPageReady
         ) {
           concurrency = 1;
@@ -852,11 +2520,41 @@ export class ScraperFlow<
 
         if (freeFlowsLeft <= 0) return;
 
+        // Retries still waiting for their backoff delay are skipped until the timer wakes us up
+        const now = Date.now();
+        const retriesDeferred =
+          this.options.errorHandlingPolicy.retryOrder === 'last' &&
+          !executorDone &&
+          !work?.isIdle();
+        const readyRetries = retriesDeferred
+          ? []
+          : pendingRetries.filter((pendingRetry) => pendingRetry.notBefore <= now);
+        const resolveRetryPriority = work?.resolveRetryPriority;
+
+        if (resolveRetryPriority) {
+          readyRetries.sort(
+            (a, b) =>
+              (b.retry ? resolveRetryPriority(b.retry) : 0) -
+              (a.retry ? resolveRetryPriority(a.retry) : 0),
+          );
+        }
+
+        // Deferred retries are handed out once a flow ends with no new pages left
+        if (!retriesDeferred && readyRetries.length < pendingRetries.length) {
+          scheduleRetryTimer(
+            Math.min(
+              ...pendingRetries
+                .filter((pendingRetry) => pendingRetry.notBefore > now)
+                .map((pendingRetry) => pendingRetry.notBefore),
+            ),
+          );
+        }
+
         const retryDistinctFlows = this.options.errorHandlingPolicy.retryDistinctFlows;
         const freeContexts = new Set<TFlowContext>();
 
         for (const ctx of state.flowsContexts) {
-          if (!flows.has(ctx)) {
+          if (!flows.has(ctx) && !trippedContexts.has(ctx)) {
             freeContexts.add(ctx);
           }
         }
@@ -868,7 +2566,7 @@ export class ScraperFlow<
           }[] = [];
           const compatibilityMap = new Map<TFlowContext, (typeof retryQueue)[number]>();
 
-          for (const pendingRetry of pendingRetries) {
+          for (const pendingRetry of readyRetries) {
             const availableFlows: TFlowContext[] = [];
 
             if (pendingRetry.flows.size >= state.flowsContexts.length) {
@@ -933,9 +2631,13 @@ export class ScraperFlow<
         }
 
         for (const ctx of freeContexts) {
-          const pendingRetry = retryDistinctFlows ? undefined : pendingRetries.shift();
+          const pendingRetry = retryDistinctFlows ? undefined : readyRetries.shift();
 
-          if (executorDone && !pendingRetry) break;
+          if (pendingRetry) {
+            pendingRetries.splice(pendingRetries.indexOf(pendingRetry), 1);
+          } else if (executorDone || work?.isIdle()) {
+            break;
+          }
 
           flows.add(ctx);
 
@@ -945,6 +2647,36 @@ export class ScraperFlow<
         }
       };
 
+      // Re-armed in steps like the budget timer, a retry delay can exceed the maximum timeout
+      const scheduleRetryTimer = (time: number): void => {
+        if (retryTimer) {
+          if (retryTimer.time <= time) return;
+
+          clearTimeout(retryTimer.timeoutId);
+        }
+
+        const remainingTime = time - Date.now();
+
+        retryTimer = {
+          timeoutId:
+            remainingTime > MAX_TIMEOUT
+              ? setTimeout(() => {
+                  retryTimer = undefined;
+
+                  scheduleRetryTimer(time);
+                }, MAX_TIMEOUT)
+              : setTimeout(() => {
+                  retryTimer = undefined;
+
+                  startFlows();
+                }, remainingTime),
+          time,
+        };
+      };
+
+      state.resumeListeners.add(startFlows);
+      state.workListeners.add(startFlows);
+
       startFlows();
 
       function done(): void {
@@ -955,9 +2687,132 @@ export class ScraperFlow<
         if (resolved) return;
 
         resolved = true;
-        resolve();
+
+        // A forced stop can be caused by an error, which has set its own end reason
+        if (signal.aborted && state.summaryHelper) {
+          state.summaryHelper.endReason ??= 'forcedStop';
+        }
+
+        resolve({ contextsTripped });
 
         signal.removeEventListener('abort', finish);
+        state.resumeListeners.delete(startFlows);
+        state.workListeners.delete(startFlows);
+
+        if (retryTimer) {
+          clearTimeout(retryTimer.timeoutId);
+        }
+        if (budgetTimer) {
+          clearTimeout(budgetTimer);
+        }
+
+        if (checkpointTimer) {
+          clearInterval(checkpointTimer);
+
+          if (signal.aborted) {
+            saveCheckpoint();
+          }
+        }
+      }
+    }).then(async (result) => {
+      if (this.options.responseHandling === 'awaited') {
+        await this._drainPendingResponses();
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Update the flow stats and the circuit breaker of the flow context with the result of its request.
+   */
+  private _recordFlowResult(
+    ctx: TFlowContext,
+    successful: boolean,
+    retry: boolean,
+    time: number,
+  ): void {
+    const state = this.#state;
+
+    state.summaryHelper?.addFlowResult(this._getFlowId(ctx), successful, retry, time);
+
+    const options = this.options.circuitBreaker;
+
+    if (!options.enabled) return;
+
+    let circuitBreaker = state.circuitBreakers.get(ctx);
+
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker();
+
+      state.circuitBreakers.set(ctx, circuitBreaker);
+    }
+
+    const change = circuitBreaker.record(successful, options);
+
+    if (change === 'tripped') {
+      this._emitNextTick('contextTripped', ctx);
+    } else if (change === 'recovered') {
+      this._emitNextTick('contextRecovered', ctx);
+    }
+  }
+
+  private _getFlowId(ctx: TFlowContext): string {
+    const index = this.#state.flowsContexts.indexOf(ctx);
+    const flowId = this.options.flowId;
+
+    if (typeof flowId === 'function') {
+      try {
+        return String(flowId.call(this.globalContext, ctx, index));
+      } catch (e) {
+        this._log('generalError', e);
+      }
+    }
+
+    return String(index);
+  }
+
+  private _getTrippedContexts(): Set<TFlowContext> {
+    const state = this.#state;
+    const trippedContexts = new Set<TFlowContext>();
+
+    if (!this.options.circuitBreaker.enabled) {
+      return trippedContexts;
+    }
+
+    for (const ctx of state.flowsContexts) {
+      if (state.circuitBreakers.get(ctx)?.isOpen) {
+        trippedContexts.add(ctx);
+      }
+    }
+
+    return trippedContexts;
+  }
+
+  /**
+   * Wait until resumed.
+   *
+   * @returns {} `true` if waiting was canceled, `false` otherwise.
+   */
+  private _waitForResume(signal: AbortSignal): Promise<boolean> {
+    const state = this.#state;
+
+    return new Promise((resolve) => {
+      if (signal.aborted) {
+        return resolve(true);
+      }
+      if (!state.paused) {
+        return resolve(false);
+      }
+
+      signal.addEventListener('abort', onresume, { once: true });
+      state.resumeListeners.add(onresume);
+
+      function onresume(): void {
+        signal.removeEventListener('abort', onresume);
+        state.resumeListeners.delete(onresume);
+
+        resolve(signal.aborted);
       }
     });
   }
@@ -994,7 +2849,7 @@ export class ScraperFlow<
           const ctx = this._initFlowContext(state.flowsContexts[i]);
 
           if (Array.isArray(ctx)) {
-            this._forcedStopOnError(new Error('Inconsistent flow context return type'));
+            this._forcedStopOnContextError(new Error('Inconsistent flow context return type'));
 
             return false;
           } else if (typeof ctx !== 'undefined') {
@@ -1030,7 +2885,7 @@ export class ScraperFlow<
         const ctx = this._initFlowContext();
 
         if (Array.isArray(ctx)) {
-          this._forcedStopOnError(new Error('Inconsistent flow context return type'));
+          this._forcedStopOnContextError(new Error('Inconsistent flow context return type'));
 
           return false;
         } else if (typeof ctx !== 'undefined') {
@@ -1053,36 +2908,85 @@ export class ScraperFlow<
 
       if (Array.isArray(ctx)) {
         if (!ctx.length) {
-          this._forcedStopOnError(new Error('Flow context array cannot be empty'));
+          this._forcedStopOnContextError(new Error('Flow context array cannot be empty'));
 
           return;
         }
 
         for (const item of ctx) {
           if (typeof item !== 'object') {
-            this._forcedStopOnError(new TypeError('Flow context should be an object'));
+            this._forcedStopOnContextError(new TypeError('Flow context should be an object'));
+
+            return;
+          }
+        }
+      } else if (typeof ctx !== 'object') {
+        this._forcedStopOnContextError(new TypeError('Flow context should be an object'));
+
+        return;
+      }
+
+      for (const item of Array.isArray(ctx) ? ctx : [ctx]) {
+        for (const plugin of this.options.plugins) {
+          try {
+            plugin.onContextInit?.(item);
+          } catch (e) {
+            this._log('pluginError', e);
+          }
+        }
+      }
+
+      return ctx;
+    } catch (e) {
+      this._forcedStopOnContextError(e);
+
+      return;
+    }
+  }
+
+  /**
+   * Wait until all response streams have space in their buffers.
+   *
+   * @returns {} `true` if waiting was canceled, `false` otherwise.
+   */
+  private async _waitForResponseStreams(signal: AbortSignal): Promise<boolean> {
+    const findFullStream = () => [...this.#state.responseStreams].find((stream) => stream.isFull);
+    let fullStream = findFullStream();
+
+    while (fullStream) {
+      if (await fullStream.waitForSpace(signal)) {
+        return true;
+      }
+
+      fullStream = findFullStream();
+    }
+
+    return false;
+  }
 
-            return;
-          }
-        }
-      } else if (typeof ctx !== 'object') {
-        this._forcedStopOnError(new TypeError('Flow context should be an object'));
+  private _initSummaryHelper(checkpoint?: CycleCheckpoint['summary']): CycleSummaryHelper {
+    const summaryHelper = checkpoint
+      ? CycleSummaryHelper.fromCheckpoint(checkpoint)
+      : new CycleSummaryHelper();
 
-        return;
-      }
+    summaryHelper.onPageTiming = (successful, time) => {
+      this._adjustConcurrency(successful, time);
+    };
 
-      return ctx;
-    } catch (e) {
-      this._forcedStopOnError(e);
+    this.#state.summaryHelper = summaryHelper;
 
-      return;
-    }
+    return summaryHelper;
   }
 
-  private _initFailCounter() {
-    const pageFailTimeline: (number | undefined)[] = [];
-    let totalPageFails = 0;
-    let consecutivePageFails = 0;
+  private _initFailCounter(
+    summaryHelper: CycleSummaryHelper,
+    checkpoint?: CycleCheckpoint['failCounter'],
+  ) {
+    const pageFailTimeline: (number | undefined)[] = checkpoint
+      ? checkpoint.pageFailTimeline.map((page) => page ?? undefined)
+      : [];
+    let totalPageFails = checkpoint ? checkpoint.totalPageFails : 0;
+    let consecutivePageFails = checkpoint ? checkpoint.consecutivePageFails : 0;
 
     const canSkipPage = (): boolean =>
       this.options.errorHandlingPolicy.skipPageIfPossible &&
@@ -1106,7 +3010,11 @@ export class ScraperFlow<
         totalPageFails++;
         consecutivePageFails++;
 
-        return !canSkipPage();
+        if (canSkipPage()) return false;
+
+        summaryHelper.endReason ??= 'failLimit';
+
+        return true;
       },
       /**
        * @returns {} `true` if cycle can be marked as completed.
@@ -1140,23 +3048,423 @@ export class ScraperFlow<
           }
         }
 
-        return canSkipPage();
+        if (!totalPageFails || canSkipPage()) return true;
+
+        summaryHelper.endReason ??= 'failLimit';
+
+        return false;
       },
+      toCheckpoint: (): CycleCheckpoint['failCounter'] => ({
+        pageFailTimeline: pageFailTimeline.map((page) => page ?? null),
+        totalPageFails,
+        consecutivePageFails,
+      }),
+    };
+  }
+
+  private async _loadCheckpoint(): Promise<CycleCheckpoint | undefined> {
+    const store = this.options.checkpointStore;
+
+    if (!store || this.options.paginationType === PaginationType.None) return;
+
+    try {
+      const checkpoint = await store.load();
+
+      if (checkpoint && checkpoint.paginationType !== this.options.paginationType) {
+        this._log(
+          'checkpointError',
+          new Error(
+            `Checkpoint pagination type "${checkpoint.paginationType}" does not match "${this.options.paginationType}"`,
+          ),
+        );
+
+        return;
+      }
+
+      return checkpoint;
+    } catch (e) {
+      this._log('checkpointError', e);
+
+      return;
+    }
+  }
+
+  private _saveCheckpoint(checkpoint: Omit<CycleCheckpoint, 'paginationType' | 'savedAt'>): void {
+    const store = this.options.checkpointStore;
+
+    if (!store) return;
+
+    const data: CycleCheckpoint = {
+      paginationType: this.options.paginationType,
+      savedAt: Date.now(),
+      ...checkpoint,
     };
+
+    this._queueCheckpointOperation(() => store.save(data));
+  }
+
+  private _clearCheckpoint(): void {
+    const store = this.options.checkpointStore;
+
+    if (!store) return;
+
+    this._queueCheckpointOperation(() => store.clear());
+  }
+
+  private _queueCheckpointOperation(operation: () => void | Promise<void>): void {
+    const state = this.#state;
+
+    state.checkpointQueue = state.checkpointQueue.then(async () => {
+      try {
+        await operation();
+      } catch (e) {
+        this._log('checkpointError', e);
+      }
+    });
+  }
+
+  /**
+   * Check if pagination should stop after this page, because the rest was already scraped.
+   */
+  private async _isIncrementalStop(
+    options: Pick<
+      ValidatedPaginationForHasMoreOptions<TThisContext, TFlowContext, TResponse>,
+      'resolveStopCondition' | 'resolveItemKeys' | 'seenKeyStore'
+    >,
+    ctx: TFlowContext,
+    response: TResponse,
+  ): Promise<boolean> {
+    if (
+      options.resolveStopCondition &&
+      (await options.resolveStopCondition.call(this.globalContext, ctx, response))
+    ) {
+      return true;
+    }
+    if (!options.resolveItemKeys) {
+      return false;
+    }
+
+    const itemKeys = await options.resolveItemKeys.call(this.globalContext, ctx, response);
+
+    if (!Array.isArray(itemKeys)) {
+      throw new Error(`Invalid value returned "${String(itemKeys)}"`);
+    }
+    if (!itemKeys.length) {
+      return false;
+    }
+
+    const keys = itemKeys.map(String);
+    const seenKeyStore = options.seenKeyStore ?? this.#state.seenKeyStore;
+    const seen = await seenKeyStore.has(keys);
+
+    await seenKeyStore.add(keys);
+
+    return seen.every(Boolean);
   }
 
-  private _handleResponse(ctx: TFlowContext, response: TResponse): void {
+  /**
+   * @throws {InvalidResponse} If the response is rejected by `validateResponse`.
+   */
+  private async _validateResponse(
+    ctx: TFlowContext,
+    response: TResponse,
+    page: unknown,
+  ): Promise<void> {
+    const validateResponse = this.options.validateResponse as
+      | ((
+          this: TThisContext,
+          ctx: TFlowContext,
+          response: TResponse,
+          page: unknown,
+        ) => boolean | Promise<boolean>)
+      | undefined;
+
+    if (typeof validateResponse !== 'function') return;
+
+    let error: unknown;
+
+    try {
+      if (await validateResponse.call(this.globalContext, ctx, response, page)) return;
+
+      error = new ResponseValidationError('Response was rejected by validateResponse');
+    } catch (e) {
+      error = e;
+    }
+
+    this._log('validationError', error, [ctx, page]);
+
+    throw new InvalidResponse(error);
+  }
+
+  /**
+   * Call `fetchHandler` with the fetch hooks of the plugins around it.
+   *
+   * @param fetched Its page is replaced by the page returned from `beforeFetch`, to be passed to the next page handlers.
+   */
+  private async _fetchPage(ctx: TFlowContext, fetched: { page: unknown }): Promise<TResponse> {
+    const fetchHandler = this.options.fetchHandler as (
+      this: TThisContext,
+      ctx: TFlowContext,
+      page: unknown,
+    ) => TResponse | Promise<TResponse>;
+    // Plugins, whose `beforeFetch` has been passed, in the reverse order
+    const wrappingPlugins: ScraperFlowPlugin<TFlowContext, TResponse>[] = [];
+    let cached: { response: TResponse } | undefined;
+
+    for (const plugin of this.options.plugins) {
+      // A hook without a result returns `undefined`
+      const result = (await plugin.beforeFetch?.(ctx, fetched.page)) as
+        | BeforeFetchResult<TResponse>
+        | undefined;
+
+      if (result) {
+        if ('page' in result) {
+          fetched.page = result.page;
+        }
+        if ('response' in result) {
+          cached = { response: result.response as TResponse };
+
+          break;
+        }
+      }
+
+      wrappingPlugins.unshift(plugin);
+    }
+
+    let response = cached
+      ? cached.response
+      : await fetchHandler.call(this.globalContext, ctx, fetched.page);
+
+    for (const plugin of wrappingPlugins) {
+      const result = (await plugin.afterFetch?.(ctx, response, fetched.page)) as
+        | AfterFetchResult<TResponse>
+        | undefined;
+
+      if (result && 'response' in result) {
+        response = result.response;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Log the error thrown while fetching or validating the page, and let the plugins replace it.
+   *
+   * @returns {} The error the page failed with.
+   */
+  private async _handleFetchError(
+    err: unknown,
+    args: [ctx: TFlowContext, page?: unknown],
+  ): Promise<unknown> {
+    let error = err;
+
+    // Already logged by the validation
+    if (err instanceof InvalidResponse) {
+      error = err.error;
+    } else {
+      this._log('fetchError', err, args);
+    }
+
+    const [ctx, page] = args;
+
+    for (const plugin of [...this.options.plugins].reverse()) {
+      try {
+        const replacement = await plugin.onError?.(error, ctx, page);
+
+        if (typeof replacement !== 'undefined') {
+          error = replacement;
+        }
+      } catch (e) {
+        this._log('pluginError', e);
+      }
+    }
+
+    return error;
+  }
+
+  private _handleResponse(ctx: TFlowContext, response: TResponse, page: unknown): void {
+    const flowResponse = {
+      ctx,
+      page: page as PageResponse<
+        TPaginationType,
+        TFlowContext,
+        TResponse,
+        TCursor,
+        TPageListItem
+      >['page'],
+      response,
+    };
+
+    for (const stream of this.#state.responseStreams) {
+      stream.push(flowResponse);
+    }
+
     const responseHandler = this.options.responseHandler;
+    const sinks = this.options.sinks;
+
+    if (typeof responseHandler !== 'function' && !sinks.length) return;
+
+    const state = this.#state;
+    const handling = Promise.all([
+      // The writes are called synchronously, so the sinks receive the responses in order
+      ...sinks.map(async (sink) => {
+        try {
+          await sink.write(flowResponse);
+        } catch (e) {
+          this._log('sinkError', e);
+        }
+      }),
+      (async () => {
+        if (typeof responseHandler !== 'function') return;
+
+        try {
+          // A handler without a result returns `undefined`
+          const result = await (
+            responseHandler as (
+              this: TThisContext,
+              ctx: TFlowContext,
+              response: TResponse,
+            ) => EnqueueFromResponse | Promise<EnqueueFromResponse | undefined> | undefined
+          ).call(this.globalContext, ctx, response);
+
+          if (typeof result === 'object' && Array.isArray(result.enqueue)) {
+            this.enqueue(result.enqueue as TPageListItem[], { priority: result.priority });
+          }
+        } catch (e) {
+          this._log('responseHandleError', e);
+        }
+      })(),
+    ]).then(() => undefined);
 
-    if (typeof responseHandler !== 'function') return;
+    state.pendingResponses.add(handling);
 
-    void (async () => {
+    // Chained, so the call is removed only after it was added, even if it settled synchronously
+    void handling.finally(() => {
+      state.pendingResponses.delete(handling);
+
+      this._notifyResponseSlot();
+      this._notifyWork();
+    });
+  }
+
+  /**
+   * Wait until the pending responses and the pages being fetched are below `maxPendingResponses`,
+   * then reserve a slot for the page. The slot should be released once the page is handled.
+   *
+   * @returns {} `true` if waiting was canceled, `false` if the slot was reserved.
+   */
+  private async _acquireResponseSlot(signal: AbortSignal): Promise<boolean> {
+    const state = this.#state;
+
+    while (
+      (typeof this.options.responseHandler === 'function' || this.options.sinks.length) &&
+      state.pendingResponses.size + state.reservedResponses >= this.options.maxPendingResponses
+    ) {
+      const canceled = await new Promise<boolean>((resolve) => {
+        if (signal.aborted) {
+          return resolve(true);
+        }
+
+        const onslot = (): void => {
+          signal.removeEventListener('abort', onabort);
+          resolve(false);
+        };
+        const onabort = (): void => {
+          state.responseSlotListeners.delete(onslot);
+          resolve(true);
+        };
+
+        signal.addEventListener('abort', onabort, { once: true });
+        state.responseSlotListeners.add(onslot);
+      });
+
+      if (canceled) return true;
+    }
+
+    state.reservedResponses++;
+
+    return false;
+  }
+
+  private _releaseResponseSlot(): void {
+    this.#state.reservedResponses--;
+
+    this._notifyResponseSlot();
+  }
+
+  private _notifyResponseSlot(): void {
+    const listeners = [...this.#state.responseSlotListeners];
+
+    this.#state.responseSlotListeners.clear();
+
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Wait until all pending response handler calls have settled, including the calls made meanwhile.
+   */
+  private async _drainPendingResponses(): Promise<void> {
+    const pendingResponses = this.#state.pendingResponses;
+
+    while (pendingResponses.size) {
+      await Promise.all(pendingResponses);
+    }
+  }
+
+  private _notifyWork(): void {
+    for (const listener of this.#state.workListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Decide how the failed page should be handled.
+   */
+  private _classifyError(
+    err: unknown,
+    ctx: TFlowContext,
+    attemptsLeft: number,
+  ): ErrorClassification {
+    const attempt = this.options.errorHandlingPolicy.retryLimit - attemptsLeft + 1;
+
+    if (err instanceof FatalError) {
+      return { attempt, attemptsLeft: 0, retryAfter: undefined, fatal: true };
+    }
+    if (err instanceof SkipPageError) {
+      return { attempt, attemptsLeft: 0, retryAfter: undefined, fatal: false };
+    }
+
+    let retryAfter = err instanceof RetryableError ? err.retryAfter : undefined;
+    const shouldRetry = this.options.errorHandlingPolicy.shouldRetry;
+
+    if (shouldRetry && attemptsLeft > 0) {
       try {
-        await responseHandler.call(this.globalContext, ctx, response);
+        const result = shouldRetry.call(this.globalContext, err, attempt, ctx);
+
+        if (result === false) {
+          return { attempt, attemptsLeft: 0, retryAfter: undefined, fatal: false };
+        }
+        if (typeof result === 'number') {
+          if (Number.isFinite(result)) {
+            retryAfter = Math.max(0, Math.trunc(result));
+          } else {
+            this._log(
+              'generalError',
+              new Error(
+                `Invalid value returned for retry delay "${result}". Must be a finite number.`,
+              ),
+            );
+          }
+        }
       } catch (e) {
-        this._log('responseHandleError', e);
+        this._log('generalError', e);
       }
-    })();
+    }
+
+    return { attempt, attemptsLeft, retryAfter, fatal: false };
   }
 
   private _computeInterval(property: 'interval' | 'cycleInterval', ctx?: TFlowContext): number {
@@ -1199,31 +3507,129 @@ export class ScraperFlow<
     return interval;
   }
 
+  /**
+   * @param attempt Retry attempt number, starting from `1`.
+   * @returns {} Delay before the retry, in `ms`.
+   */
+  private _computeRetryDelay(attempt: number): number {
+    const { strategy, delay, maxDelay, jitter } = this.options.errorHandlingPolicy.retryBackoff;
+    let retryDelay: number;
+
+    switch (strategy) {
+      case 'constant':
+        retryDelay = delay;
+
+        break;
+      case 'linear':
+        retryDelay = delay * attempt;
+
+        break;
+      case 'exponential':
+        retryDelay = delay * 2 ** (attempt - 1);
+    }
+
+    retryDelay = Math.min(retryDelay, maxDelay);
+
+    if (jitter) {
+      // Equal jitter, keeps at least half of the delay
+      retryDelay = retryDelay / 2 + Math.random() * (retryDelay / 2);
+    }
+
+    return Math.trunc(retryDelay);
+  }
+
+  private _clearPause(): void {
+    const state = this.#state;
+
+    state.paused = false;
+
+    for (const listener of state.resumeListeners) {
+      listener();
+    }
+  }
+
+  private _adjustConcurrency(successful: boolean, time: number): void {
+    const state = this.#state;
+    const { concurrency, concurrencySupported, adaptiveConcurrency } =
+      this._getConcurrencyOptions();
+
+    if (!concurrencySupported || !adaptiveConcurrency?.enabled || state.isConcurrencyFixed) {
+      return;
+    }
+
+    const newConcurrency = state.concurrencyController.record(
+      concurrency,
+      adaptiveConcurrency,
+      successful,
+      time,
+    );
+
+    if (newConcurrency !== concurrency) {
+      // New flows are started and redundant ones are left to finish by the orchestrator
+      state.adaptedConcurrency = newConcurrency;
+
+      this._emitNextTick('concurrencyChanged', newConcurrency, concurrency);
+    }
+  }
+
   private _getConcurrencyOptions() {
     let concurrency: number;
     let removeContextForRedundantFlows: boolean;
     let concurrencySupported: boolean;
+    let adaptiveConcurrency:
+      | ValidatedPaginationForListOptions<
+          TThisContext,
+          TFlowContext,
+          TResponse,
+          TPageListItem
+        >['adaptiveConcurrency']
+      | undefined;
 
     switch (this.options.paginationType) {
       case PaginationType.None:
-      case PaginationType.Cursor:
         concurrency = 1;
         removeContextForRedundantFlows = true;
         concurrencySupported = false;
+        adaptiveConcurrency = undefined;
+
+        break;
+      case PaginationType.Cursor:
+        // Only independent cursor chains can be fetched concurrently
+        if (this.options.resolveCursorSeeds) {
+          concurrency = this.options.concurrency;
+          removeContextForRedundantFlows = this.options.removeContextForRedundantFlows;
+          concurrencySupported = true;
+          adaptiveConcurrency = this.options.adaptiveConcurrency;
+        } else {
+          concurrency = 1;
+          removeContextForRedundantFlows = true;
+          concurrencySupported = false;
+          adaptiveConcurrency = undefined;
+        }
 
         break;
       case PaginationType.TotalPages:
       case PaginationType.HasMore:
       case PaginationType.List:
+      case PaginationType.Offset:
+      case PaginationType.Crawl:
+      case PaginationType.TimeWindow:
         concurrency = this.options.concurrency;
         removeContextForRedundantFlows = this.options.removeContextForRedundantFlows;
         concurrencySupported = true;
+        adaptiveConcurrency = this.options.adaptiveConcurrency;
+    }
+
+    // `concurrency` option is the starting point of the adaptive concurrency
+    if (adaptiveConcurrency?.enabled && typeof this.#state.adaptedConcurrency !== 'undefined') {
+      concurrency = this.#state.adaptedConcurrency;
     }
 
     return {
       concurrency,
       removeContextForRedundantFlows,
       concurrencySupported,
+      adaptiveConcurrency,
     };
   }
 
@@ -1232,6 +3638,15 @@ export class ScraperFlow<
     this.stop(true).finally(() => this._log('generalError', err));
   }
 
+  private _forcedStopOnContextError(err: unknown): void {
+    // The flow contexts can also be initialized mid-cycle, e.g. when the concurrency grows
+    if (this.#state.summaryHelper) {
+      this.#state.summaryHelper.endReason ??= 'contextError';
+    }
+
+    this._forcedStopOnError(err);
+  }
+
   private _log<EventName extends LogType>(
     eventName: EventName,
     ...args: Parameters<ScraperFlowEvents[EventName]>
@@ -1287,9 +3702,108 @@ export class ScraperFlow<
   }
 }
 
+/**
+ * Wraps the error of a rejected response, to tell it apart from the fetch errors.
+ */
+class InvalidResponse extends Error {
+  readonly error: unknown;
+
+  constructor(error: unknown) {
+    super('Invalid response');
+
+    this.name = 'InvalidResponse';
+    this.error = error;
+  }
+}
+
+interface ErrorClassification {
+  /**
+   * Number of the failed attempt, starting from `1`.
+   */
+  attempt: number;
+  /**
+   * Attempts left for the failed page, `0` if it should not be retried.
+   */
+  attemptsLeft: number;
+  /**
+   * Delay before the retry, in `ms`. Overrides the retry backoff if defined.
+   */
+  retryAfter: number | undefined;
+  /**
+   * If the cycle should be aborted.
+   */
+  fatal: boolean;
+}
+
+interface OrchestratorResult {
+  /**
+   * If the cycle was ended because all flow contexts were tripped.
+   */
+  contextsTripped: boolean;
+}
+
+/**
+ * Item added with `enqueue`.
+ */
+interface QueuedListItem<TPageListItem> {
+  item: TPageListItem;
+  priority: number;
+}
+
+/**
+ * Cursor chain, started with one of the cursor seeds.
+ */
+interface CursorChain<TCursor> {
+  seed: TCursor | undefined;
+  /**
+   * Cursor of the next page.
+   */
+  cursor: TCursor | undefined;
+  pageCount: number;
+  status: 'ready' | 'busy' | 'completed' | 'failed';
+}
+
+/**
+ * Crawl item waiting in the queue, with its depth and index in the order of discovery.
+ */
+interface CrawlQueueItem<TPageListItem> {
+  item: TPageListItem;
+  depth: number;
+  index: number;
+}
+
+/**
+ * Response with the page argument of `fetchHandler` for the pagination type.
+ */
+type PageResponse<
+  TPaginationType extends PaginationType,
+  TFlowContext,
+  TResponse,
+  TCursor,
+  TPageListItem,
+> = FlowResponse<
+  TFlowContext,
+  TResponse,
+  TPaginationType extends PaginationType.None
+    ? undefined
+    : TPaginationType extends PaginationType.TotalPages | PaginationType.HasMore
+    ? number
+    : TPaginationType extends PaginationType.Cursor
+    ? TCursor | undefined
+    : TPaginationType extends PaginationType.List | PaginationType.Crawl
+    ? TPageListItem
+    : TPaginationType extends PaginationType.Offset
+    ? OffsetPage
+    : TPaginationType extends PaginationType.TimeWindow
+    ? TimeWindowPage
+    : never
+>;
+
 interface ScraperFlowEvents {
   started(): void;
   stopped(): void;
+  paused(): void;
+  resumed(): void;
   cycleSummary(summary: CycleSummary): void;
   validationWarning(key: string, msg: string): void;
   generalError(err: unknown): void;
@@ -1297,4 +3811,11 @@ interface ScraperFlowEvents {
   resolveError(err: unknown): void;
   responseHandleError(err: unknown): void;
   summaryHandleError(err: unknown): void;
+  validationError(err: unknown, args: unknown[]): void;
+  sinkError(err: unknown): void;
+  pluginError(err: unknown): void;
+  checkpointError(err: unknown): void;
+  concurrencyChanged(concurrency: number, previousConcurrency: number): void;
+  contextTripped(ctx: unknown): void;
+  contextRecovered(ctx: unknown): void;
 }
@@ -0,0 +1,49 @@
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { PaginationType } from './enums/pagination.js';
+import { ScraperFlow } from './scraper-flow.js';
+import { ScraperPipeline } from './scraper-pipeline.js';
+
+describe('ScraperPipeline', () => {
+  it('feeds every stage with the responses of the previous one', async () => {
+    const lastStageItems: number[] = [];
+    const pipeline = ScraperPipeline.from(
+      ScraperFlow.create({
+        paginationType: PaginationType.List,
+        logger: false,
+        interval: 0,
+        resolveList: () => [1, 2, 3],
+        fetchHandler: (_ctx, item) => item,
+      }),
+    )
+      .pipe({
+        logger: false,
+        interval: 0,
+        resolveItems: ({ response }) => [response * 10],
+        fetchHandler: (_ctx, item) => item,
+      })
+      .pipe({
+        logger: false,
+        interval: 0,
+        resolveItems: ({ response }) => [response + 1],
+        fetchHandler: (_ctx, item) => {
+          lastStageItems.push(item);
+
+          return item;
+        },
+      });
+
+    const summary = await pipeline.startOnce();
+
+    assert.ok(summary);
+    assert.equal(summary.completed, true);
+    assert.deepEqual(
+      summary.stages.map((stage) => stage?.stats.totalPageCount),
+      [3, 3, 3],
+    );
+    assert.deepEqual(
+      lastStageItems.sort((a, b) => a - b),
+      [11, 21, 31],
+    );
+  });
+});
@@ -0,0 +1,315 @@
+import { EventEmitter } from 'node:events';
+import { PaginationType } from './enums/pagination.js';
+import { ScraperFlow } from './scraper-flow.js';
+import type { CycleSummary, FlowResponse } from './types/scraper-flow-options.js';
+import type { PipelineStageOptions, PipelineSummary } from './types/scraper-pipeline.js';
+
+export class ScraperPipeline<TOutput> extends EventEmitter {
+  /**
+   * Start a pipeline with the flow as the first stage.
+   */
+  static from<TFlow extends PipelineFlow>(flow: TFlow): ScraperPipeline<PipelineFlowOutput<TFlow>> {
+    return new ScraperPipeline([
+      { flow, resolveItems: undefined, queueSize: undefined, runner: undefined },
+    ]);
+  }
+
+  readonly #stages: readonly PipelineStage[];
+
+  /**
+   * Internal state
+   */
+  readonly #state: {
+    running?: {
+      promise: Promise<PipelineSummary>;
+    };
+    /**
+     * Responses of the previous stage, for each stage.
+     */
+    inputs: (AsyncIterableIterator<unknown> | undefined)[];
+    /**
+     * Summary of the last cycle of each stage.
+     */
+    summaries: (CycleSummary | undefined)[];
+  };
+
+  get isRunning(): boolean {
+    return !!this.#state.running;
+  }
+
+  /**
+   * Flows of the stages, in order.
+   */
+  get flows(): readonly PipelineFlow[] {
+    return this.#stages.map(({ flow }) => flow);
+  }
+
+  /**
+   * Use static method `from` to instantiate a new class instance.
+   */
+  private constructor(stages: readonly PipelineStage[]) {
+    super();
+
+    this.#stages = stages;
+    this.#state = {
+      inputs: [],
+      summaries: [],
+    };
+  }
+
+  /**
+   * Add a "list" flow stage, which fetches the items resolved from the responses of the previous stage.
+   *
+   * @returns {} A new pipeline with the added stage.
+   */
+  pipe<
+    TThisContext extends Record<string, unknown>,
+    TFlowContext extends Record<string, unknown>,
+    TResponse,
+    TPageListItem,
+  >(
+    options: PipelineStageOptions<TThisContext, TFlowContext, TResponse, TPageListItem, TOutput>,
+  ): ScraperPipeline<FlowResponse<TFlowContext, TResponse, TPageListItem>> {
+    const { resolveItems, queueSize, ...flowOptions } = options;
+    const index = this.#stages.length;
+    const stage: PipelineStage = {
+      flow: ScraperFlow.create({
+        ...flowOptions,
+        paginationType: PaginationType.List,
+        // The inputs are kept by the pipeline that was started, which can have more stages than this one
+        resolveList: () =>
+          (stage.runner?._pullStageItems(index) ?? []) as AsyncIterable<TPageListItem>,
+      }),
+      resolveItems: resolveItems as (input: unknown) => unknown[] | Promise<unknown[]>,
+      queueSize,
+      runner: undefined,
+    };
+
+    return new ScraperPipeline([...this.#stages, stage]);
+  }
+
+  /**
+   * Start all stages.
+   *
+   * @returns {} `true` if started successfully, `false` if the pipeline or any of its flows is already running.
+   */
+  start(): boolean {
+    return !!this._run();
+  }
+
+  /**
+   * Start the pipeline just for one cycle of the first stage.
+   *
+   * @returns {} A promise that resolves with the pipeline summary, or `undefined` if already running.
+   */
+  async startOnce(): Promise<PipelineSummary | undefined> {
+    const promise = this._run();
+
+    if (!promise) return undefined;
+
+    // We use graceful stop here, to execute just one cycle
+    void this.stop();
+
+    return promise;
+  }
+
+  /**
+   * Stop the pipeline.
+   *
+   * @param forced If `true` will stop all stages immediately, otherwise will stop the first stage
+   * after its current cycle, and each next stage once it has handled all the input.
+   * @returns {} A promise that resolves when all stages are stopped.
+   */
+  stop(forced?: boolean): Promise<void> {
+    const running = this.#state.running;
+
+    if (!running) return Promise.resolve();
+
+    if (forced) {
+      for (const { flow } of this.#stages) {
+        void flow.stop(true);
+      }
+    } else {
+      void this.#stages[0]?.flow.stop();
+    }
+
+    return running.promise.then(() => undefined);
+  }
+
+  private _run(): Promise<PipelineSummary> | undefined {
+    const state = this.#state;
+    const stages = this.#stages;
+
+    if (state.running || stages.some(({ flow }) => flow.isRunning)) return undefined;
+
+    state.summaries = stages.map(() => undefined);
+
+    for (const stage of stages) {
+      stage.runner = this;
+    }
+
+    // Subscribing before the start, so no response of the previous stage is missed
+    state.inputs = stages.map(({ queueSize }, index) =>
+      index ? stages[index - 1]?.flow.responses(queueSize) : undefined,
+    );
+
+    const stopped = stages.map(
+      ({ flow }, index) =>
+        new Promise<void>((resolve) => {
+          const onsummary = (summary: CycleSummary): void => {
+            state.summaries[index] = summary;
+          };
+
+          flow.on('cycleSummary', onsummary);
+          flow.once('stopped', () => {
+            flow.off('cycleSummary', onsummary);
+
+            // The previous stage is not blocked by the input, which will not be read anymore
+            void state.inputs[index]?.return?.();
+
+            const next = stages[index + 1];
+
+            if (next) {
+              void next.flow.stop();
+            }
+            if (stages.slice(0, index).some((stage) => stage.flow.isRunning)) {
+              // The output of the previous stages would have nowhere to go
+              void this.stop(true);
+            }
+
+            resolve();
+          });
+        }),
+    );
+
+    const promise = Promise.all(stopped).then(() => {
+      state.running = undefined;
+
+      const summary = this._summarize();
+
+      try {
+        this.emit('pipelineSummary', summary);
+      } catch (e) {
+        this.emit('generalError', e);
+      }
+
+      this.emit('stopped');
+
+      return summary;
+    });
+
+    state.running = { promise };
+
+    // The next stages are started first, to be ready for the input
+    for (const { flow } of [...stages].reverse()) {
+      flow.start();
+    }
+
+    process.nextTick(() => this.emit('started'));
+
+    return promise;
+  }
+
+  private async *_pullStageItems(index: number): AsyncGenerator<unknown, void, undefined> {
+    const stage = this.#stages[index];
+    const input = this.#state.inputs[index];
+
+    if (!stage?.resolveItems || !input) return;
+
+    for (;;) {
+      // Not using `for await`, so the input is kept open if this stage ends its cycle early
+      const result = await input.next();
+
+      if (result.done) break;
+
+      let items: unknown[];
+
+      try {
+        items = await stage.resolveItems(result.value);
+
+        if (!Array.isArray(items)) {
+          throw new TypeError('Resolved items are not an array');
+        }
+      } catch (e) {
+        this.emit('resolveError', e, index);
+
+        continue;
+      }
+
+      yield* items;
+    }
+
+    // The previous stage has stopped, so this one ends after the last items
+    void stage.flow.stop();
+  }
+
+  private _summarize(): PipelineSummary {
+    const stages = [...this.#state.summaries];
+
+    return Object.freeze({
+      completed: stages.every((summary) => summary?.completed),
+      stages: Object.freeze(stages),
+    });
+  }
+
+  //----- Type-safe event listeners -----//
+
+  override on<EventName extends keyof ScraperPipelineEvents>(
+    eventName: EventName,
+    listener: ScraperPipelineEvents[EventName],
+  ): this {
+    return super.on(eventName, listener);
+  }
+  override once<EventName extends keyof ScraperPipelineEvents>(
+    eventName: EventName,
+    listener: ScraperPipelineEvents[EventName],
+  ): this {
+    return super.once(eventName, listener);
+  }
+  override emit<EventName extends keyof ScraperPipelineEvents>(
+    eventName: EventName,
+    ...args: Parameters<ScraperPipelineEvents[EventName]>
+  ): boolean {
+    return super.emit(eventName, ...args);
+  }
+}
+
+/**
+ * Part of `ScraperFlow` used by the pipeline.
+ */
+interface PipelineFlow {
+  readonly isRunning: boolean;
+  start(): boolean;
+  stop(forced?: boolean): Promise<void>;
+  responses(bufferSize?: number): AsyncIterableIterator<unknown>;
+  on(eventName: 'cycleSummary', listener: (summary: CycleSummary) => void): unknown;
+  once(eventName: 'stopped', listener: () => void): unknown;
+  off(eventName: 'cycleSummary', listener: (summary: CycleSummary) => void): unknown;
+}
+
+interface PipelineStage {
+  flow: PipelineFlow;
+  /**
+   * Undefined for the first stage.
+   */
+  resolveItems: ((input: unknown) => unknown[] | Promise<unknown[]>) | undefined;
+  queueSize: number | undefined;
+  /**
+   * Pipeline which was started with this stage. The stages are shared by the pipelines returned by `pipe`.
+   */
+  runner: ScraperPipeline<unknown> | undefined;
+}
+
+type PipelineFlowOutput<TFlow extends PipelineFlow> = TFlow extends {
+  responses(bufferSize?: number): AsyncIterableIterator<infer TOutput>;
+}
+  ? TOutput
+  : never;
+
+interface ScraperPipelineEvents {
+  started(): void;
+  stopped(): void;
+  pipelineSummary(summary: PipelineSummary): void;
+  resolveError(err: unknown, stageIndex: number): void;
+  generalError(err: unknown): void;
+}
@@ -0,0 +1,51 @@
+import { strict as assert } from 'node:assert';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { FileSink } from './file-sink.js';
+
+describe('FileSink', () => {
+  let dirPath: string;
+
+  before(async () => {
+    dirPath = await mkdtemp(join(tmpdir(), 'file-sink-'));
+  });
+
+  after(async () => {
+    await rm(dirPath, { recursive: true, force: true });
+  });
+
+  it('writes each rotated file once, even within the same ms', async () => {
+    const filePath = join(dirPath, 'rotated', 'items.jsonl');
+    const sink = new FileSink({ filePath, rotate: { maxBytes: 1 } });
+
+    await Promise.all(
+      [1, 2, 3, 4].map((response) => sink.write({ ctx: {}, page: undefined, response })),
+    );
+    await sink.close();
+
+    const fileNames = await readdir(join(dirPath, 'rotated'));
+    const records = await Promise.all(
+      fileNames.map((fileName) => readFile(join(dirPath, 'rotated', fileName), 'utf8')),
+    );
+
+    assert.equal(fileNames.length, 4);
+    assert.deepEqual(records.sort(), ['1\n', '2\n', '3\n', '4\n']);
+  });
+
+  it('writes the csv records after a header row, with the values quoted if needed', async () => {
+    const filePath = join(dirPath, 'csv', 'items.csv');
+    const sink = new FileSink({
+      filePath,
+      format: 'csv',
+      mapResponse: ({ response }) => response as unknown[],
+    });
+
+    await sink.write({ ctx: {}, page: 1, response: [{ id: 1, name: 'a, b' }] });
+    await sink.write({ ctx: {}, page: 2, response: [{ id: 2, name: 'c "d"' }] });
+    await sink.close();
+
+    assert.equal(await readFile(filePath, 'utf8'), 'id,name\n1,"a, b"\n2,"c ""d"""\n');
+  });
+});
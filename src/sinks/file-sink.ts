@@ -0,0 +1,212 @@
+import { mkdir, open, rename, writeFile } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { dirname, extname } from 'node:path';
+import type { CycleSummary, FlowResponse } from '../types/scraper-flow-options.js';
+import type { FileSinkOptions, ResponseSink } from '../types/response-sink.js';
+import { replaceErrors } from '../utils/replace-errors.js';
+
+interface OpenFile {
+  handle: FileHandle;
+  filePath: string;
+  size: number;
+  /**
+   * Unix timestamp of the file opening, in `ms`.
+   */
+  openedAt: number;
+  /**
+   * CSV columns of the file, known after the first record.
+   */
+  columns: string[] | undefined;
+}
+
+/**
+ * Appends the responses, or the records picked out of them, to JSON Lines or CSV files.
+ *
+ * Options are read on each write, so they can be changed later.
+ */
+export class FileSink<TFlowContext = unknown, TResponse = unknown>
+  implements ResponseSink<TFlowContext, TResponse>
+{
+  readonly options: FileSinkOptions<TFlowContext, TResponse>;
+
+  #file: OpenFile | undefined;
+  /**
+   * Path of the file with the last written records.
+   */
+  #lastFilePath: string | undefined;
+  #writeQueue: Promise<void>;
+
+  constructor(options: FileSinkOptions<TFlowContext, TResponse>) {
+    this.options = options;
+
+    this.#writeQueue = Promise.resolve();
+  }
+
+  async write(response: FlowResponse<TFlowContext, TResponse, unknown>): Promise<void> {
+    const records = this.options.mapResponse
+      ? this.options.mapResponse(response)
+      : [response.response];
+
+    await this._enqueue(async () => {
+      for (const record of records) {
+        if (typeof record === 'undefined') continue;
+
+        const file = await this._getFile();
+        const data = this._format(file, record);
+
+        await file.handle.write(data);
+
+        file.size += Buffer.byteLength(data);
+      }
+    });
+  }
+
+  async writeSummary(summary: CycleSummary): Promise<void> {
+    await this._enqueue(async () => {
+      if (this.options.writeSummary ?? true) {
+        const dataFilePath = this.#file?.filePath ?? this.#lastFilePath ?? this.options.filePath;
+        const filePath = `${dataFilePath}.summary.json`;
+        const tmpFilePath = `${filePath}.tmp`;
+
+        await mkdir(dirname(filePath), { recursive: true });
+        // Replaced atomically, so a reader never sees a partial summary
+        await writeFile(tmpFilePath, JSON.stringify(summary, replaceErrors, 2), 'utf8');
+        await rename(tmpFilePath, filePath);
+      }
+
+      if (this.options.rotate?.perCycle) {
+        await this._closeFile();
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this._enqueue(() => this._closeFile());
+  }
+
+  private _enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.#writeQueue.then(task);
+
+    // A failed write should not block the next ones
+    this.#writeQueue = run.catch(() => undefined);
+
+    return run;
+  }
+
+  private async _getFile(): Promise<OpenFile> {
+    const rotate = this.options.rotate;
+
+    if (
+      this.#file &&
+      (this.#file.size >= (rotate?.maxBytes ?? Number.POSITIVE_INFINITY) ||
+        Date.now() - this.#file.openedAt >= (rotate?.interval ?? Number.POSITIVE_INFINITY))
+    ) {
+      await this._closeFile();
+    }
+    if (this.#file) return this.#file;
+
+    const { filePath, handle } = this._isRotated()
+      ? await this._openRotatedFile()
+      : await this._openFile(this.options.filePath);
+    const { size } = await handle.stat();
+
+    this.#file = {
+      handle,
+      filePath,
+      size,
+      openedAt: Date.now(),
+      columns: this.options.columns,
+    };
+    this.#lastFilePath = filePath;
+
+    return this.#file;
+  }
+
+  private async _closeFile(): Promise<void> {
+    const file = this.#file;
+
+    if (!file) return;
+
+    this.#file = undefined;
+
+    await file.handle.close();
+  }
+
+  private _isRotated(): boolean {
+    const rotate = this.options.rotate;
+
+    return (
+      !!rotate &&
+      (Number.isFinite(rotate.maxBytes ?? Number.POSITIVE_INFINITY) ||
+        Number.isFinite(rotate.interval ?? Number.POSITIVE_INFINITY) ||
+        !!rotate.perCycle)
+    );
+  }
+
+  private async _openFile(filePath: string): Promise<{ filePath: string; handle: FileHandle }> {
+    await mkdir(dirname(filePath), { recursive: true });
+
+    return { filePath, handle: await open(filePath, 'a') };
+  }
+
+  /**
+   * Open a new file, named after the current time.
+   */
+  private async _openRotatedFile(): Promise<{ filePath: string; handle: FileHandle }> {
+    const filePath = this.options.filePath;
+    const extension = extname(filePath);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const basePath = `${filePath.slice(0, filePath.length - extension.length)}.${timestamp}`;
+
+    await mkdir(dirname(filePath), { recursive: true });
+
+    // A file rotated within the same `ms`, or left by an earlier run, is not appended to
+    for (let sequence = 0; ; sequence++) {
+      const rotatedFilePath = `${basePath}${sequence ? `-${sequence}` : ''}${extension}`;
+
+      try {
+        return { filePath: rotatedFilePath, handle: await open(rotatedFilePath, 'wx') };
+      } catch (e) {
+        if (!(e instanceof Error) || (e as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw e;
+        }
+      }
+    }
+  }
+
+  private _format(file: OpenFile, record: unknown): string {
+    if (this.options.format !== 'csv') {
+      return `${JSON.stringify(record, replaceErrors)}\n`;
+    }
+
+    const row: Record<string, unknown> =
+      typeof record === 'object' && record !== null
+        ? (record as Record<string, unknown>)
+        : { value: record };
+    let data = '';
+
+    file.columns ??= Object.keys(row);
+
+    // A non-empty file already has the header
+    if (!file.size) {
+      data += `${file.columns.map((column) => toCsvValue(column)).join(',')}\n`;
+    }
+
+    data += `${file.columns.map((column) => toCsvValue(row[column])).join(',')}\n`;
+
+    return data;
+  }
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || typeof value === 'undefined') return '';
+
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+      ? JSON.stringify(value, replaceErrors)
+      : String(value as string | number | boolean | bigint | symbol);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,48 @@
+import { readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import type { CheckpointStore, CycleCheckpoint } from '../types/checkpoint.js';
+import { isNotFoundError } from '../utils/is-not-found-error.js';
+import { replaceErrors } from '../utils/replace-errors.js';
+
+/**
+ * Keeps the checkpoint in a JSON file.
+ *
+ * @NOTE Cursors, list and crawl items, and crawl keys must be JSON serializable to be restored correctly.
+ * Errors of the dead letters are restored as plain objects with `name` and `message`.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<CycleCheckpoint | undefined> {
+    let data: string;
+
+    try {
+      data = await readFile(this.filePath, 'utf8');
+    } catch (e) {
+      if (isNotFoundError(e)) return;
+
+      throw e;
+    }
+
+    return JSON.parse(data) as CycleCheckpoint;
+  }
+
+  async save(checkpoint: CycleCheckpoint): Promise<void> {
+    const tmpFilePath = `${this.filePath}.tmp`;
+
+    // Writing to a temporary file first, so a crash in the middle of the write cannot corrupt the checkpoint
+    await writeFile(tmpFilePath, JSON.stringify(checkpoint, replaceErrors), 'utf8');
+    await rename(tmpFilePath, this.filePath);
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await unlink(this.filePath);
+    } catch (e) {
+      if (!isNotFoundError(e)) throw e;
+    }
+  }
+}
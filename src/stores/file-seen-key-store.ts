@@ -0,0 +1,86 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { SeenKeyStore } from '../types/seen-key-store.js';
+import { isNotFoundError } from '../utils/is-not-found-error.js';
+
+/**
+ * Keeps the seen keys in a JSON file, loaded into memory on first use.
+ *
+ * The whole file is written on each change, so it fits up to a few hundred thousand keys.
+ */
+export class FileSeenKeyStore implements SeenKeyStore {
+  readonly filePath: string;
+  /**
+   * Time after which a seen key is forgotten, in `ms`.
+   */
+  readonly ttl: number;
+
+  /**
+   * Unix timestamps of the last time the keys were seen, in `ms`.
+   */
+  #keys: Promise<Map<string, number>> | undefined;
+  #writeQueue: Promise<void>;
+
+  constructor(filePath: string, ttl = Number.POSITIVE_INFINITY) {
+    this.filePath = filePath;
+    this.ttl = ttl;
+
+    this.#writeQueue = Promise.resolve();
+  }
+
+  async has(keys: readonly string[]): Promise<boolean[]> {
+    const seenKeys = await this._load();
+    const now = Date.now();
+
+    return keys.map((key) => {
+      const seenAt = seenKeys.get(key);
+
+      return typeof seenAt !== 'undefined' && seenAt + this.ttl > now;
+    });
+  }
+
+  async add(keys: readonly string[]): Promise<void> {
+    const seenKeys = await this._load();
+    const now = Date.now();
+
+    for (const key of keys) {
+      seenKeys.set(key, now);
+    }
+    for (const [key, seenAt] of seenKeys) {
+      if (seenAt + this.ttl <= now) {
+        seenKeys.delete(key);
+      }
+    }
+
+    const data = JSON.stringify(Object.fromEntries(seenKeys));
+    const write = this.#writeQueue.then(async () => {
+      const tmpFilePath = `${this.filePath}.tmp`;
+
+      // Writing to a temporary file first, so a crash in the middle of the write cannot corrupt the keys
+      await writeFile(tmpFilePath, data, 'utf8');
+      await rename(tmpFilePath, this.filePath);
+    });
+
+    // A failed write should not block the next ones
+    this.#writeQueue = write.catch(() => undefined);
+
+    await write;
+  }
+
+  private _load(): Promise<Map<string, number>> {
+    this.#keys ??= (async () => {
+      let data: string;
+
+      try {
+        data = await readFile(this.filePath, 'utf8');
+      } catch (e) {
+        if (isNotFoundError(e)) return new Map<string, number>();
+
+        throw e;
+      }
+
+      return new Map(Object.entries(JSON.parse(data) as Record<string, number>));
+    })();
+
+    return this.#keys;
+  }
+}
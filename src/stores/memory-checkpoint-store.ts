@@ -0,0 +1,22 @@
+import type { CheckpointStore, CycleCheckpoint } from '../types/checkpoint.js';
+
+/**
+ * Keeps the checkpoint in memory.
+ *
+ * Survives a restart of the scraper, but not of the process.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  #checkpoint: CycleCheckpoint | undefined;
+
+  load(): CycleCheckpoint | undefined {
+    return this.#checkpoint;
+  }
+
+  save(checkpoint: CycleCheckpoint): void {
+    this.#checkpoint = checkpoint;
+  }
+
+  clear(): void {
+    this.#checkpoint = undefined;
+  }
+}
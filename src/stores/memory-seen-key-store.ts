@@ -0,0 +1,55 @@
+import type { SeenKeyStore } from '../types/seen-key-store.js';
+
+/**
+ * Keeps the seen keys in memory.
+ *
+ * Survives a restart of the scraper, but not of the process.
+ */
+export class MemorySeenKeyStore implements SeenKeyStore {
+  /**
+   * Time after which a seen key is forgotten, in `ms`.
+   */
+  readonly ttl: number;
+
+  /**
+   * Unix timestamps of the last time the keys were seen, in `ms`.
+   */
+  #keys: Map<string, number>;
+  #lastPrunedAt: number;
+
+  constructor(ttl = Number.POSITIVE_INFINITY) {
+    this.ttl = ttl;
+
+    this.#keys = new Map();
+    this.#lastPrunedAt = Date.now();
+  }
+
+  has(keys: readonly string[]): boolean[] {
+    const now = Date.now();
+
+    return keys.map((key) => {
+      const seenAt = this.#keys.get(key);
+
+      return typeof seenAt !== 'undefined' && seenAt + this.ttl > now;
+    });
+  }
+
+  add(keys: readonly string[]): void {
+    const now = Date.now();
+
+    for (const key of keys) {
+      this.#keys.set(key, now);
+    }
+
+    // Expired keys are removed at most once per TTL, to keep memory flat
+    if (now - this.#lastPrunedAt >= this.ttl) {
+      for (const [key, seenAt] of this.#keys) {
+        if (seenAt + this.ttl <= now) {
+          this.#keys.delete(key);
+        }
+      }
+
+      this.#lastPrunedAt = now;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import type { PaginationType } from '../enums/pagination.js';
+import type {
+  CrawlStats,
+  CursorChainStats,
+  DeadLetter,
+  TimeWindowStats,
+} from './scraper-flow-options.js';
+
+export interface CycleCheckpoint {
+  /**
+   * Pagination type of the flow that saved the checkpoint.
+   */
+  readonly paginationType: PaginationType;
+  /**
+   * Unix timestamp of the save, in `ms`.
+   */
+  readonly savedAt: number;
+  /**
+   * Cycle position. The shape depends on the pagination type.
+   */
+  readonly position: Readonly<Record<string, unknown>>;
+  /**
+   * Pages waiting for a retry, including the pages that were being fetched at the moment of the save.
+   */
+  readonly pendingRetries: readonly CheckpointPendingRetry[];
+  /**
+   * Cycle stats collected so far.
+   */
+  readonly summary: {
+    readonly completed: boolean;
+    readonly deadLetters: readonly DeadLetter[];
+    readonly stats: {
+      readonly totalPageCount: number;
+      readonly failedPageList: readonly number[];
+      readonly totalErrorCount: number;
+      readonly timings: {
+        readonly startedAt: number;
+        readonly avg: {
+          readonly all: readonly [number, number];
+          readonly successful: readonly [number, number];
+          readonly failed: readonly [number, number];
+        };
+      };
+      readonly perFlow: Readonly<Record<string, CheckpointFlowStats>>;
+      readonly crawl?: CrawlStats;
+      readonly timeWindow?: TimeWindowStats;
+      readonly cursorChains?: readonly CursorChainStats[];
+    };
+  };
+  /**
+   * Failed pages counters.
+   */
+  readonly failCounter: {
+    readonly pageFailTimeline: readonly (number | null)[];
+    readonly totalPageFails: number;
+    readonly consecutivePageFails: number;
+  };
+}
+
+/**
+ * Stats of one flow, as collected during the cycle.
+ */
+export interface CheckpointFlowStats {
+  readonly pageCount: number;
+  readonly successCount: number;
+  readonly failureCount: number;
+  readonly retryCount: number;
+  readonly totalTime: number;
+  readonly maxTime: number;
+}
+
+export interface CheckpointPendingRetry {
+  /**
+   * Page data needed to retry it. The shape depends on the pagination type.
+   */
+  readonly retry: unknown;
+  /**
+   * Attempts left for this page.
+   */
+  readonly attemptsLeft: number;
+}
+
+export interface CheckpointStore {
+  /**
+   * Load the last saved checkpoint.
+   *
+   * @returns {} The checkpoint, or `undefined` if there is nothing to resume.
+   */
+  load(): CycleCheckpoint | undefined | Promise<CycleCheckpoint | undefined>;
+  /**
+   * Save the checkpoint, replacing the previous one.
+   */
+  save(checkpoint: CycleCheckpoint): void | Promise<void>;
+  /**
+   * Remove the saved checkpoint. Called when the cycle ends without being interrupted.
+   */
+  clear(): void | Promise<void>;
+}
@@ -0,0 +1,76 @@
+import type { Agent, IncomingHttpHeaders, OutgoingHttpHeaders } from 'node:http';
+
+export type HttpParseType = 'json' | 'text' | 'buffer';
+
+export interface HttpRequest {
+  url: string | URL;
+  /**
+   * Default `'GET'`.
+   */
+  method?: string;
+  /**
+   * Merged over the headers of the flow context.
+   */
+  headers?: OutgoingHttpHeaders;
+  /**
+   * Objects, except buffers, are sent as JSON.
+   */
+  body?: string | Buffer | Record<string, unknown> | unknown[];
+}
+
+export interface HttpResponse {
+  /**
+   * URL of the response, after the redirects.
+   */
+  readonly url: string;
+  readonly status: number;
+  readonly headers: IncomingHttpHeaders;
+  /**
+   * Decompressed body.
+   */
+  readonly body: Buffer;
+}
+
+export interface HttpFetchHandlerOptions<TFlowContext, TPage, TResponse> {
+  /**
+   * Build the request for the page.
+   */
+  buildRequest: (ctx: TFlowContext, page: TPage) => HttpRequest | Promise<HttpRequest>;
+  /**
+   * How the response body is parsed. Default `undefined`.
+   *
+   * If not defined, the body is parsed as JSON if the content type is JSON, otherwise as text.
+   *
+   * #### `json`:
+   * Parsed as JSON.
+   *
+   * #### `text`:
+   * Decoded as UTF-8 text.
+   *
+   * #### `buffer`:
+   * Returned as is.
+   */
+  parse?: HttpParseType | ((response: HttpResponse) => TResponse | Promise<TResponse>);
+  /**
+   * Headers sent with every request of the flow context. Called once per flow context.
+   */
+  initHeaders?: (ctx: TFlowContext) => OutgoingHttpHeaders;
+  /**
+   * Agent for the requests of the flow context, e.g. a proxy agent. Called once per flow context.
+   *
+   * If not defined, the default agent is used.
+   */
+  resolveAgent?: (ctx: TFlowContext) => Agent | undefined;
+  /**
+   * Keep the cookies set by the responses, separately for each flow context. Default `true`.
+   */
+  cookies?: boolean;
+  /**
+   * Max time of the request, in `ms`. Default `30000`.
+   */
+  timeout?: number;
+  /**
+   * Max redirects to follow. Default `5`.
+   */
+  maxRedirects?: number;
+}
@@ -0,0 +1,77 @@
+import type { CycleSummary } from './scraper-flow-options.js';
+
+export interface BeforeFetchResult<TResponse> {
+  /**
+   * Page argument to call `fetchHandler` with instead.
+   */
+  page?: unknown;
+  /**
+   * Response to use instead of calling `fetchHandler`, e.g. from a cache.
+   */
+  response?: TResponse;
+}
+
+export interface AfterFetchResult<TResponse> {
+  /**
+   * Response to use instead.
+   */
+  response: TResponse;
+}
+
+/**
+ * Hooks around the handler calls of the scraper.
+ *
+ * Hooks are called as methods of the plugin, in the order the plugins were added.
+ * `afterFetch` and `onError` are called in the reverse order, so the first plugin wraps all the others.
+ */
+export interface ScraperFlowPlugin<TFlowContext = unknown, TResponse = unknown> {
+  /**
+   * Called before each `fetchHandler` call.
+   *
+   * Return `{ page }` to change the page argument, or `{ response }` to skip `fetchHandler` and the next plugins.
+   * The changed page is also passed to the next plugins, `validateResponse`, the sinks, `responses()` and `onError`,
+   * while the pagination keeps the original one.
+   */
+  beforeFetch?:
+    | ((ctx: TFlowContext, page: unknown) => void | Promise<void>)
+    | ((
+        ctx: TFlowContext,
+        page: unknown,
+      ) =>
+        | Promise<BeforeFetchResult<TResponse> | undefined>
+        | BeforeFetchResult<TResponse>
+        | undefined);
+  /**
+   * Called after each `fetchHandler` call, or after a response was returned by `beforeFetch` of a next plugin.
+   *
+   * Return `{ response }` to change the response.
+   */
+  afterFetch?:
+    | ((ctx: TFlowContext, response: TResponse, page: unknown) => void | Promise<void>)
+    | ((
+        ctx: TFlowContext,
+        response: TResponse,
+        page: unknown,
+      ) =>
+        | Promise<AfterFetchResult<TResponse> | undefined>
+        | AfterFetchResult<TResponse>
+        | undefined);
+  /**
+   * Called when fetching or validating the page fails, after the error is logged.
+   *
+   * Return an error to fail the page with instead, e.g. `SkipPageError` to not retry it.
+   */
+  onError?(err: unknown, ctx: TFlowContext, page: unknown): unknown;
+  /**
+   * Called at the start of each cycle.
+   */
+  onCycleStart?(): void | Promise<void>;
+  /**
+   * Called at the end of each cycle, before `summaryHandler`.
+   */
+  onCycleEnd?(summary: CycleSummary): void | Promise<void>;
+  /**
+   * Called when a flow context is initialized by `initFlowContext`.
+   */
+  onContextInit?(ctx: TFlowContext): void;
+}
@@ -0,0 +1,25 @@
+export interface RateLimiter {
+  /**
+   * Wait for permission to make one request.
+   *
+   * @returns {} `true` if waiting was canceled, `false` otherwise.
+   */
+  acquire(signal?: AbortSignal): Promise<boolean>;
+}
+
+export interface RateLimitOptions {
+  /**
+   * Max number of requests per window. Default `Infinity`.
+   */
+  requests?: number;
+  /**
+   * Window duration, in `ms`. Default `1000`.
+   */
+  window?: number;
+  /**
+   * Max number of requests that can be made at once, after a period of inactivity. Default `1`.
+   *
+   * With the default value the requests are evenly spaced within the window.
+   */
+  burst?: number;
+}
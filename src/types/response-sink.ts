@@ -0,0 +1,72 @@
+import type { CycleSummary, FlowResponse } from './scraper-flow-options.js';
+
+export interface ResponseSink<TFlowContext = unknown, TResponse = unknown> {
+  /**
+   * Write the response. Called with each response, same as `responseHandler`.
+   */
+  write(response: FlowResponse<TFlowContext, TResponse, unknown>): void | Promise<void>;
+  /**
+   * Write the cycle summary. Called at the end of each cycle, before `summaryHandler`.
+   */
+  writeSummary?(summary: CycleSummary): void | Promise<void>;
+  /**
+   * Flush and close the output. Called when the scraper stops.
+   */
+  close?(): void | Promise<void>;
+}
+
+export type FileSinkFormat = 'jsonl' | 'csv';
+
+export interface FileSinkOptions<TFlowContext = unknown, TResponse = unknown> {
+  /**
+   * Path to the file. The directories are created if missing.
+   *
+   * If the file is rotated, a timestamp is added before the extension, e.g. `items.2024-01-01T00-00-00-000Z.jsonl`,
+   * followed by a sequence number if the file already exists, e.g. `items.2024-01-01T00-00-00-000Z-1.jsonl`.
+   */
+  filePath: string;
+  /**
+   * Output format. Default `'jsonl'`.
+   *
+   * #### `jsonl`:
+   * One JSON value per line.
+   *
+   * #### `csv`:
+   * One row per record, with a header row. Nested values are written as JSON.
+   */
+  format?: FileSinkFormat;
+  /**
+   * Pick the records to write from the response. Default `undefined`.
+   *
+   * If not defined, the response itself is written.
+   */
+  mapResponse?: (response: FlowResponse<TFlowContext, TResponse, unknown>) => unknown[];
+  /**
+   * CSV columns. Default `undefined`.
+   *
+   * If not defined, the keys of the first record in the file are used.
+   */
+  columns?: string[];
+  /**
+   * Start a new file when one of the limits is reached.
+   */
+  rotate?: {
+    /**
+     * Max size of the file, in bytes. Default `Infinity`.
+     */
+    maxBytes?: number;
+    /**
+     * Max time since the file was opened, in `ms`. Default `Infinity`.
+     */
+    interval?: number;
+    /**
+     * Start a new file with each cycle. Default `false`.
+     */
+    perCycle?: boolean;
+  };
+  /**
+   * Write the cycle summary to a sidecar file, next to the file with the last records of the cycle,
+   * e.g. `items.jsonl.summary.json`. Default `true`.
+   */
+  writeSummary?: boolean;
+}
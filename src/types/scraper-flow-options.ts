@@ -1,29 +1,133 @@
 import type { PaginationType } from '../enums/pagination.js';
+import type { CheckpointStore } from './checkpoint.js';
+import type { RateLimiter, RateLimitOptions } from './rate-limiter.js';
+import type { ResponseSink } from './response-sink.js';
+import type { ScraperFlowPlugin } from './plugin.js';
+import type { SeenKeyStore } from './seen-key-store.js';
 
 export type IntervalStrategy = 'dynamic' | 'fixed';
+export type BackoffStrategy = 'constant' | 'linear' | 'exponential';
+export type RetryOrder = 'first' | 'last';
+export type ResponseHandling = 'detached' | 'awaited';
+export type CycleEndReason =
+  | 'completed'
+  | 'budgetExceeded'
+  | 'failLimit'
+  | 'forcedStop'
+  | 'contextError'
+  | 'fatalError'
+  | 'resolveError';
 export type LogType =
   | 'validationWarning'
   | 'generalError'
   | 'fetchError'
   | 'resolveError'
   | 'responseHandleError'
-  | 'summaryHandleError';
+  | 'summaryHandleError'
+  | 'validationError'
+  | 'sinkError'
+  | 'pluginError'
+  | 'checkpointError';
+
+export interface FlowResponse<TFlowContext, TResponse, TPage> {
+  /**
+   * Context of the flow that fetched the page.
+   */
+  readonly ctx: TFlowContext;
+  /**
+   * Page number, cursor or list item, depending on the pagination type.
+   */
+  readonly page: TPage;
+  /**
+   * Response returned by `fetchHandler`.
+   */
+  readonly response: TResponse;
+}
+
+export interface DeadLetter {
+  /**
+   * Page identifier, as listed in `failedPageList`.
+   */
+  readonly id: number;
+  /**
+   * Page number, cursor or list item, depending on the pagination type.
+   */
+  readonly page: unknown;
+  /**
+   * Last error thrown by fetch or resolve handlers.
+   */
+  readonly error: unknown;
+  /**
+   * Number of attempts made to fetch the page.
+   */
+  readonly attempts: number;
+}
+
+export interface EnqueueOptions {
+  /**
+   * Items with a higher priority are fetched first. The items of `resolveList` have the priority
+   * from `resolvePriority`, or `0`. Default `undefined`.
+   *
+   * If undefined, the priority from `resolvePriority` is used, or `0`.
+   */
+  priority?: number;
+}
+
+/**
+ * Can be returned by `responseHandler` to add items to the running "list" cycle.
+ */
+export interface EnqueueFromResponse extends EnqueueOptions {
+  enqueue: unknown[];
+}
 
 export interface CycleSummary {
   /**
    * If cycle was completed or aborted.
    */
   readonly completed: boolean;
+  /**
+   * Why the cycle ended.
+   *
+   * #### `completed`:
+   * Pagination finished, see `completed`.
+   *
+   * #### `budgetExceeded`:
+   * One of the `cycleBudget` limits was reached.
+   *
+   * #### `failLimit`:
+   * Failed pages could not be skipped anymore, see `errorHandlingPolicy`.
+   *
+   * #### `forcedStop`:
+   * The scraper was stopped with `stop(true)`.
+   *
+   * #### `contextError`:
+   * All flow contexts were tripped by the circuit breaker for longer than the cycle budget, or a flow context could not be initialized.
+   *
+   * #### `fatalError`:
+   * A `FatalError` was thrown.
+   *
+   * #### `resolveError`:
+   * The page list or the seeds could not be resolved, or are empty.
+   */
+  readonly endReason: CycleEndReason;
+  /**
+   * Failed pages, with the data needed to fetch them again.
+   */
+  readonly deadLetters: readonly DeadLetter[];
   /**
    * Cycle stats.
    */
   readonly stats: {
     /**
      * Total number of handled pages.
+     *
+     * For `PaginationType.Offset`, total number of items.
      */
     readonly totalPageCount: number;
     /**
      * List of failed pages.
+     *
+     * For `PaginationType.Offset`, offsets of the failed pages.
      */
     readonly failedPageList: number[];
     /**
@@ -60,6 +164,103 @@ export interface CycleSummary {
         readonly failed: number;
       };
     };
+    /**
+     * Stats of each flow, keyed by the flow id.
+     */
+    readonly perFlow: Readonly<Record<string, FlowStats>>;
+    /**
+     * Crawl stats. Only for `PaginationType.Crawl`.
+     */
+    readonly crawl?: CrawlStats;
+    /**
+     * Time window stats. Only for `PaginationType.TimeWindow`.
+     */
+    readonly timeWindow?: TimeWindowStats;
+    /**
+     * Stats of each cursor chain, in the order of the seeds. Only with `resolveCursorSeeds`.
+     */
+    readonly cursorChains?: readonly CursorChainStats[];
+  };
+}
+
+export interface CrawlStats {
+  /**
+   * Number of items returned by `resolveSeeds` and `resolveLinks`, including duplicates.
+   */
+  readonly discoveredCount: number;
+  /**
+   * Number of successfully fetched items.
+   */
+  readonly fetchedCount: number;
+  /**
+   * Number of discovered items dropped as duplicates or because of the `maxItems` limit.
+   */
+  readonly skippedCount: number;
+  /**
+   * Max depth of the fetched items.
+   */
+  readonly depthReached: number;
+}
+
+export interface CursorChainStats {
+  /**
+   * Cursor the chain was started with.
+   */
+  readonly seed: unknown;
+  /**
+   * Number of pages fetched by the chain.
+   */
+  readonly pageCount: number;
+  /**
+   * If the chain reached its last page.
+   */
+  readonly completed: boolean;
+}
+
+export interface TimeWindowStats {
+  /**
+   * Number of successfully fetched windows, not counting the split ones.
+   */
+  readonly windowCount: number;
+  /**
+   * Number of truncated windows split in half.
+   */
+  readonly splitCount: number;
+  /**
+   * List of failed windows.
+   */
+  readonly failedWindowList: readonly TimeWindowPage[];
+}
+
+export interface FlowStats {
+  /**
+   * Number of page fetch attempts made by the flow.
+   */
+  readonly pageCount: number;
+  /**
+   * Number of successful attempts.
+   */
+  readonly successCount: number;
+  /**
+   * Number of failed attempts.
+   */
+  readonly failureCount: number;
+  /**
+   * Number of attempts that were retries of failed pages.
+   */
+  readonly retryCount: number;
+  /**
+   * Information about the page handling time.
+   */
+  readonly timings: {
+    /**
+     * Average handling time, in `ms`.
+     */
+    readonly avg: number;
+    /**
+     * Max handling time, in `ms`.
+     */
+    readonly max: number;
   };
 }
 
@@ -125,16 +326,57 @@ interface CommonOptions<TThisContext, TFlowContext, TResponse> {
    * Reset flows contexts at the start of each cycle. Default `false`.
    */
   resetFlowContext?: boolean;
+  /**
+   * Flow id used as a key in `perFlow` stats. Default `undefined`.
+   *
+   * If not defined, the index of the context in `flowsContexts` is used.
+   */
+  flowId?: (this: TThisContext, ctx: TFlowContext, index: number) => string | number;
   /**
    * Response handling.
    *
    * Can and should be used to handle responses, without worrying about errors that might abort the cycle.
+   *
+   * For "list" pagination type, return `{ enqueue, priority? }` to add items to the running cycle.
+   * With `responseHandling: 'detached'` the cycle can end before the handler settles, so the items are added
+   * only if the cycle is still running.
    */
-  responseHandler?: (
-    this: TThisContext,
-    ctx: TFlowContext,
-    response: TResponse,
-  ) => void | Promise<void>;
+  responseHandler?:
+    | ((this: TThisContext, ctx: TFlowContext, response: TResponse) => void | Promise<void>)
+    | ((
+        this: TThisContext,
+        ctx: TFlowContext,
+        response: TResponse,
+      ) => Promise<EnqueueFromResponse | undefined> | EnqueueFromResponse | undefined);
+  /**
+   * How the calls of `responseHandler` are waited for. Default `'detached'`.
+   *
+   * #### `detached`:
+   * The calls run in the background. The cycle can end before they settle.
+   *
+   * #### `awaited`:
+   * The cycle ends only after all calls have settled, so `summaryHandler` and `stop()` wait for them too.
+   */
+  responseHandling?: ResponseHandling;
+  /**
+   * Max responses, whose `responseHandler` calls or sink writes are not settled yet. Default `Infinity`.
+   *
+   * The pages being fetched count towards the limit too. New pages are not fetched while the limit is reached.
+   */
+  maxPendingResponses?: number;
+  /**
+   * Outputs, where each response is written, e.g. `FileSink`. Default `[]`.
+   *
+   * Sinks are called with the same responses as `responseHandler` and count towards `maxPendingResponses` too.
+   * Their cycle summary is written before `summaryHandler` is called, and they are closed when the scraper stops.
+   */
+  sinks?: ResponseSink<TFlowContext, TResponse>[];
+  /**
+   * Plugins with hooks around the handler calls. Default `[]`.
+   *
+   * More plugins can be added later with `use()`.
+   */
+  plugins?: ScraperFlowPlugin<TFlowContext, TResponse>[];
   /**
    * Cycle summary. Called at the end of each cycle.
    */
@@ -153,6 +395,16 @@ interface CommonOptions<TThisContext, TFlowContext, TResponse> {
      * Try to fetch the failed page through different contexts. Default `true`.
      */
     retryDistinctFlows?: boolean;
+    /**
+     * When the failed pages are retried, relative to the new pages. Default `'first'`.
+     *
+     * #### `first`:
+     * Retries ready to go are handed out before the new pages.
+     *
+     * #### `last`:
+     * Retries are handed out once there are no new pages to fetch for now.
+     */
+    retryOrder?: RetryOrder;
     /**
      * Skip the failed page if possible, after reaching the retry limit. Default `false`.
      *
@@ -173,7 +425,136 @@ interface CommonOptions<TThisContext, TFlowContext, TResponse> {
      * A value equal to or less than `0` will end the cycle immediately after the first failed page.
      */
     maxConsecutivePageFails?: number;
+    /**
+     * Delay before retrying the failed page.
+     *
+     * While the retry is waiting, the flows keep fetching other pages.
+     */
+    retryBackoff?: {
+      /**
+       * Backoff strategy. Default `'constant'`.
+       *
+       * #### `constant`:
+       * Every retry waits for `delay`.
+       *
+       * #### `linear`:
+       * The delay grows by `delay` with each retry.
+       *
+       * #### `exponential`:
+       * The delay doubles with each retry, starting from `delay`.
+       */
+      strategy?: BackoffStrategy;
+      /**
+       * Base delay, in `ms`. Default `0`.
+       */
+      delay?: number;
+      /**
+       * Max delay, in `ms`. Default `Infinity`.
+       */
+      maxDelay?: number;
+      /**
+       * Randomize the delay between half and the full value. Default `false`.
+       */
+      jitter?: boolean;
+    };
+    /**
+     * Decide if the failed page should be retried. Default `undefined`.
+     *
+     * Return `false` to mark the page as failed right away, `true` to retry it,
+     * or a number to retry it after this delay, in `ms`.
+     *
+     * Not called for `FatalError` and `SkipPageError`, or when the retry limit is reached.
+     */
+    shouldRetry?: (
+      this: TThisContext,
+      err: unknown,
+      attempt: number,
+      ctx: TFlowContext,
+    ) => boolean | number;
+  };
+  /**
+   * Limits of a single cycle. Once a limit is reached, the pages being fetched are finished
+   * and the cycle ends as not completed.
+   *
+   * The limits apply from the start of the cycle, or from the resume of an interrupted one.
+   */
+  cycleBudget?: {
+    /**
+     * Max pages to fetch, not counting retries. Default `Infinity`.
+     */
+    maxPages?: number;
+    /**
+     * Max duration of the cycle, in `ms`. Default `Infinity`.
+     */
+    maxDurationMs?: number;
+    /**
+     * Max failed page fetch attempts. Default `Infinity`.
+     */
+    maxErrors?: number;
+  };
+  /**
+   * Limit the request rate of all flows combined.
+   *
+   * Checked before each `fetchHandler` call, after the flow interval.
+   * Can be changed later to dynamically regulate the request rate.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Rate limiter used instead of `rateLimit` option. Default `undefined`.
+   *
+   * Can be used to share one limiter between multiple scrapers.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Take unhealthy flow contexts out of scheduling for a while.
+   *
+   * After the cooldown the next request of the context is a trial:
+   * success returns the context to scheduling, failure trips it again.
+   *
+   * If all flow contexts are tripped, the cycle waits for the first cooldown to end,
+   * or ends as not completed if the cooldown outlasts `cycleBudget.maxDurationMs`.
+   */
+  circuitBreaker?: {
+    /**
+     * Enable the circuit breaker. Default `false`.
+     */
+    enabled?: boolean;
+    /**
+     * Consecutive failed requests of the context to trip it. Default `5`.
+     */
+    maxConsecutiveFailures?: number;
+    /**
+     * Share of failed requests within the window to trip the context, from `0` to `1`. Default `0.5`.
+     */
+    errorRateThreshold?: number;
+    /**
+     * Number of the last requests of the context used to calculate the error rate. Default `20`.
+     */
+    errorRateWindow?: number;
+    /**
+     * Time the tripped context is left out of scheduling, in `ms`. Default `30000`.
+     */
+    cooldown?: number;
   };
+  /**
+   * Store used to save checkpoints of the current cycle. Default `undefined`.
+   *
+   * Checkpoints are saved periodically and removed when the cycle ends without being interrupted.
+   *
+   * @NOTE Checkpoints are not used for "none" pagination type.
+   */
+  checkpointStore?: CheckpointStore;
+  /**
+   * Interval between checkpoint saves, in `ms`. Default `5000`.
+   */
+  checkpointInterval?: number;
+  /**
+   * Resume the interrupted cycle from the saved checkpoint on start. Default `false`.
+   *
+   * For "list" pagination type, `resolveList` should return the same list as before the interruption.
+   * Items of an async iterable, that were already handed out, are pulled again and skipped.
+   */
+  resume?: boolean;
   /**
    * What type of logs will be printed to console. Default `['validationWarning', 'generalError']`.
    *
@@ -195,6 +576,40 @@ interface ConcurrencyOptions {
    * Used to regulate flow context lifecycle in case of dynamic concurrency.
    */
   removeContextForRedundantFlows?: boolean;
+  /**
+   * Adjust the concurrency automatically, based on the result and the duration of each page.
+   *
+   * The concurrency grows by one while the pages succeed and the latency stays stable,
+   * and is cut by `decreaseFactor` on a failed page or a latency spike.
+   *
+   * @NOTE Not used when `initFlowContext` returns an array.
+   */
+  adaptiveConcurrency?: {
+    /**
+     * Enable adaptive concurrency. Default `false`.
+     */
+    enabled?: boolean;
+    /**
+     * Min concurrency. Default and minimum `1`.
+     */
+    min?: number;
+    /**
+     * Max concurrency. Default `10`.
+     *
+     * Must not be less than `min`.
+     */
+    max?: number;
+    /**
+     * Multiplier applied to the concurrency on a decrease. Default `0.5`.
+     *
+     * Must be greater than `0` and less than `1`.
+     */
+    decreaseFactor?: number;
+    /**
+     * How many times the average latency can exceed the baseline before it is treated as a spike. Default `2`.
+     */
+    latencyTolerance?: number;
+  };
 }
 
 interface TotalPagesAndHasMoreCommonOptions<TThisContext, TFlowContext, TResponse> {
@@ -206,12 +621,50 @@ interface TotalPagesAndHasMoreCommonOptions<TThisContext, TFlowContext, TRespons
     ctx: TFlowContext,
     page: number,
   ) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    page: number,
+  ) => boolean | Promise<boolean>;
   /**
    * Number pagination begin with. Default `1`.
    */
   paginationStart?: number;
 }
 
+interface IncrementalOptions<TThisContext, TFlowContext, TResponse> {
+  /**
+   * Determine if pagination should stop after this page, e.g. because the rest was already scraped.
+   *
+   * The cycle still counts as completed.
+   */
+  resolveStopCondition?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Determine the keys of the page items. Pagination stops after a page with only seen keys.
+   *
+   * The cycle still counts as completed.
+   */
+  resolveItemKeys?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+  ) => (string | number)[] | Promise<(string | number)[]>;
+  /**
+   * Store of the seen item keys. Default `MemorySeenKeyStore` without TTL, kept between cycles.
+   */
+  seenKeyStore?: SeenKeyStore;
+}
+
 interface PaginationForNone<TThisContext, TFlowContext, TResponse>
   extends CommonOptions<TThisContext, TFlowContext, TResponse> {
   /**
@@ -222,6 +675,16 @@ interface PaginationForNone<TThisContext, TFlowContext, TResponse>
    * Scraping function.
    */
   fetchHandler: (this: TThisContext, ctx: TFlowContext) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+  ) => boolean | Promise<boolean>;
 }
 export type PaginationForNoneOptions<TThisContext, TFlowContext, TResponse> =
   ThisType<TThisContext> & PaginationForNone<TThisContext, TFlowContext, TResponse>;
@@ -253,7 +716,8 @@ export type PaginationForTotalPagesOptions<TThisContext, TFlowContext, TResponse
 interface PaginationForHasMore<TThisContext, TFlowContext, TResponse>
   extends CommonOptions<TThisContext, TFlowContext, TResponse>,
     ConcurrencyOptions,
-    TotalPagesAndHasMoreCommonOptions<TThisContext, TFlowContext, TResponse> {
+    TotalPagesAndHasMoreCommonOptions<TThisContext, TFlowContext, TResponse>,
+    IncrementalOptions<TThisContext, TFlowContext, TResponse> {
   /**
    * The total number of pages cannot be pre-calculated.
    */
@@ -271,11 +735,13 @@ export type PaginationForHasMoreOptions<TThisContext, TFlowContext, TResponse> =
   ThisType<TThisContext> & PaginationForHasMore<TThisContext, TFlowContext, TResponse>;
 
 interface PaginationForCursor<TThisContext, TFlowContext, TResponse, TCursor>
-  extends CommonOptions<TThisContext, TFlowContext, TResponse> {
+  extends CommonOptions<TThisContext, TFlowContext, TResponse>,
+    ConcurrencyOptions,
+    IncrementalOptions<TThisContext, TFlowContext, TResponse> {
   /**
    * A cursor from the previous page is needed to fetch the next page.
    *
-   * Because of that, concurrency options are not available for this method.
+   * Because of that, concurrency options are used only with `resolveCursorSeeds`.
    */
   paginationType: PaginationType.Cursor;
   /**
@@ -286,6 +752,17 @@ interface PaginationForCursor<TThisContext, TFlowContext, TResponse, TCursor>
     ctx: TFlowContext,
     cursor?: TCursor,
   ) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    cursor?: TCursor,
+  ) => boolean | Promise<boolean>;
   /**
    * Resolve cursor for the next page.
    *
@@ -296,6 +773,15 @@ interface PaginationForCursor<TThisContext, TFlowContext, TResponse, TCursor>
     ctx: TFlowContext,
     response: TResponse,
   ) => TCursor | Promise<TCursor | null | undefined> | null | undefined;
+  /**
+   * Determine the cursors to start independent cursor chains with, e.g. per category or shard.
+   *
+   * The chains are fetched concurrently, one page of each chain at a time.
+   * Without it, a single chain is started without a cursor.
+   *
+   * Will be called before each cycle.
+   */
+  resolveCursorSeeds?: (this: TThisContext) => TCursor[] | Promise<TCursor[]>;
 }
 export type PaginationForCursorOptions<TThisContext, TFlowContext, TResponse, TCursor> =
   ThisType<TThisContext> & PaginationForCursor<TThisContext, TFlowContext, TResponse, TCursor>;
@@ -315,19 +801,249 @@ interface PaginationForList<TThisContext, TFlowContext, TResponse, TPageListItem
     ctx: TFlowContext,
     item: TPageListItem,
   ) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    item: TPageListItem,
+  ) => boolean | Promise<boolean>;
   /**
    * Determine the list of links or other request options.
    *
+   * An async iterable, e.g. an async generator, is pulled lazily as the flows free up.
+   *
    * Will be called before each cycle.
    */
-  resolveList: (this: TThisContext) => TPageListItem[] | Promise<TPageListItem[]>;
+  resolveList: (
+    this: TThisContext,
+  ) => TPageListItem[] | Promise<TPageListItem[]> | AsyncIterable<TPageListItem>;
+  /**
+   * Number of items pulled ahead from the async iterable returned by `resolveList`. Default `10`.
+   */
+  listLookAhead?: number;
+  /**
+   * Determine the priority of the item. Items with a higher priority are fetched first. Default `undefined`.
+   *
+   * The items of an async iterable are ordered within `listLookAhead`.
+   * The retries of the failed items are ordered by this priority too.
+   */
+  resolvePriority?: (this: TThisContext, item: TPageListItem) => number;
 }
 export type PaginationForListOptions<TThisContext, TFlowContext, TResponse, TPageListItem> =
   ThisType<TThisContext> & PaginationForList<TThisContext, TFlowContext, TResponse, TPageListItem>;
 
+export interface OffsetPage {
+  /**
+   * Offset of the first item of the page.
+   */
+  readonly offset: number;
+  /**
+   * Number of items of the page.
+   */
+  readonly limit: number;
+}
+
+interface PaginationForOffset<TThisContext, TFlowContext, TResponse>
+  extends CommonOptions<TThisContext, TFlowContext, TResponse>,
+    ConcurrencyOptions {
+  /**
+   * The page is requested by the offset of its first item and the number of items.
+   */
+  paginationType: PaginationType.Offset;
+  /**
+   * Scraping function.
+   */
+  fetchHandler: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    page: OffsetPage,
+  ) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    page: OffsetPage,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Number of items per page. Default `20`.
+   */
+  pageSize?: number;
+  /**
+   * Determine the total number of items.
+   *
+   * At least one of `resolveTotal` and `resolveItemCount` is required.
+   */
+  resolveTotal?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+  ) => number | Promise<number>;
+  /**
+   * Determine the number of items in the page.
+   *
+   * If defined, a page with fewer items than `pageSize` is treated as the last one.
+   *
+   * At least one of `resolveTotal` and `resolveItemCount` is required.
+   */
+  resolveItemCount?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+  ) => number | Promise<number>;
+  /**
+   * To start fetching ahead, before finding out the total number of items. Default `false`.
+   *
+   * Only used with `resolveTotal`. Without it, the pages are always fetched ahead.
+   */
+  paginationPrefetch?: boolean;
+}
+export type PaginationForOffsetOptions<TThisContext, TFlowContext, TResponse> =
+  ThisType<TThisContext> & PaginationForOffset<TThisContext, TFlowContext, TResponse>;
+
+interface PaginationForCrawl<TThisContext, TFlowContext, TResponse, TPageListItem>
+  extends CommonOptions<TThisContext, TFlowContext, TResponse>,
+    ConcurrencyOptions {
+  /**
+   * Links to follow are discovered in the responses, starting from the seeds.
+   */
+  paginationType: PaginationType.Crawl;
+  /**
+   * Scraping function.
+   */
+  fetchHandler: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    item: TPageListItem,
+  ) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    item: TPageListItem,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Determine the starting links or other request options.
+   *
+   * Will be called before each cycle.
+   */
+  resolveSeeds: (this: TThisContext) => TPageListItem[] | Promise<TPageListItem[]>;
+  /**
+   * Determine the next links or other request options, found in the response.
+   *
+   * Not called for the items at `maxDepth`.
+   */
+  resolveLinks: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    item: TPageListItem,
+  ) => TPageListItem[] | Promise<TPageListItem[]>;
+  /**
+   * Determine the key of the item, used to drop duplicates. By default, the item itself is used.
+   */
+  resolveKey?: (this: TThisContext, item: TPageListItem) => unknown;
+  /**
+   * Max depth of the links to follow. The seeds have the depth `0`. Default `Infinity`.
+   */
+  maxDepth?: number;
+  /**
+   * Max number of items to fetch in a cycle, including the seeds. Default `Infinity`.
+   */
+  maxItems?: number;
+}
+export type PaginationForCrawlOptions<TThisContext, TFlowContext, TResponse, TPageListItem> =
+  ThisType<TThisContext> & PaginationForCrawl<TThisContext, TFlowContext, TResponse, TPageListItem>;
+
+export interface TimeWindowPage {
+  /**
+   * Start of the window, inclusive. Unix timestamp, in `ms`.
+   */
+  readonly start: number;
+  /**
+   * End of the window, exclusive. Unix timestamp, in `ms`.
+   */
+  readonly end: number;
+}
+
+interface PaginationForTimeWindow<TThisContext, TFlowContext, TResponse>
+  extends CommonOptions<TThisContext, TFlowContext, TResponse>,
+    ConcurrencyOptions {
+  /**
+   * The time range is fetched in windows, split in half when a window is truncated.
+   */
+  paginationType: PaginationType.TimeWindow;
+  /**
+   * Scraping function.
+   */
+  fetchHandler: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    window: TimeWindowPage,
+  ) => TResponse | Promise<TResponse>;
+  /**
+   * Check the response before it is handled, e.g. for a captcha page returned with status 200.
+   *
+   * Return `false` or throw to fail the page. It is retried the same way as after a fetch error.
+   */
+  validateResponse?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    window: TimeWindowPage,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Start of the time range, inclusive. Unix timestamp in `ms`, or a date.
+   */
+  from: number | Date;
+  /**
+   * End of the time range, exclusive. Unix timestamp in `ms`, or a date. Default start time of the cycle.
+   */
+  to?: number | Date;
+  /**
+   * Initial window size, in `ms`. Default `86400000` (1 day).
+   */
+  windowSize?: number;
+  /**
+   * Windows smaller than this size are not split, in `ms`. Default `1000`.
+   */
+  minWindowSize?: number;
+  /**
+   * Determine if the response hit the results cap of the source, so the window must be split in half.
+   *
+   * The response of a split window is not passed to the response handlers. A truncated window
+   * that cannot be split is marked as failed.
+   */
+  resolveIsTruncated?: (
+    this: TThisContext,
+    ctx: TFlowContext,
+    response: TResponse,
+    window: TimeWindowPage,
+  ) => boolean | Promise<boolean>;
+}
+export type PaginationForTimeWindowOptions<TThisContext, TFlowContext, TResponse> =
+  ThisType<TThisContext> & PaginationForTimeWindow<TThisContext, TFlowContext, TResponse>;
+
 export type ScraperFlowOptions<TThisContext, TFlowContext, TResponse, TCursor, TPageListItem> =
   | PaginationForNoneOptions<TThisContext, TFlowContext, TResponse>
   | PaginationForTotalPagesOptions<TThisContext, TFlowContext, TResponse>
   | PaginationForHasMoreOptions<TThisContext, TFlowContext, TResponse>
   | PaginationForCursorOptions<TThisContext, TFlowContext, TResponse, TCursor>
-  | PaginationForListOptions<TThisContext, TFlowContext, TResponse, TPageListItem>;
+  | PaginationForListOptions<TThisContext, TFlowContext, TResponse, TPageListItem>
+  | PaginationForOffsetOptions<TThisContext, TFlowContext, TResponse>
+  | PaginationForCrawlOptions<TThisContext, TFlowContext, TResponse, TPageListItem>
+  | PaginationForTimeWindowOptions<TThisContext, TFlowContext, TResponse>;
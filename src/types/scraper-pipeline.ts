@@ -0,0 +1,35 @@
+import type { CycleSummary, PaginationForListOptions } from './scraper-flow-options.js';
+
+/**
+ * Options of a "list" flow fed by the previous stage of the pipeline.
+ */
+export type PipelineStageOptions<TThisContext, TFlowContext, TResponse, TPageListItem, TInput> =
+  Omit<
+    PaginationForListOptions<TThisContext, TFlowContext, TResponse, TPageListItem>,
+    'paginationType' | 'resolveList'
+  > &
+    ThisType<TThisContext> & {
+      /**
+       * Determine the items to fetch from a response of the previous stage.
+       */
+      resolveItems: (input: TInput) => TPageListItem[] | Promise<TPageListItem[]>;
+      /**
+       * Max responses of the previous stage waiting to be handled. Default `100`.
+       *
+       * The previous stage stops fetching while the queue is full.
+       */
+      queueSize?: number;
+    };
+
+export interface PipelineSummary {
+  /**
+   * If the last cycle of every stage was completed.
+   */
+  readonly completed: boolean;
+  /**
+   * Summary of the last cycle of each stage, in the order of the stages.
+   *
+   * `undefined` if the stage has not ended any cycle.
+   */
+  readonly stages: readonly (CycleSummary | undefined)[];
+}
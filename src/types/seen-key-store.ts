@@ -0,0 +1,12 @@
+export interface SeenKeyStore {
+  /**
+   * Check which keys were seen before.
+   *
+   * @returns {} For each key, `true` if it was seen.
+   */
+  has(keys: readonly string[]): boolean[] | Promise<boolean[]>;
+  /**
+   * Mark the keys as seen.
+   */
+  add(keys: readonly string[]): void | Promise<void>;
+}
@@ -4,6 +4,9 @@ import type {
   PaginationForHasMoreOptions,
   PaginationForCursorOptions,
   PaginationForListOptions,
+  PaginationForOffsetOptions,
+  PaginationForCrawlOptions,
+  PaginationForTimeWindowOptions,
 } from './scraper-flow-options.js';
 import type { PaginationType } from '../enums/pagination.js';
 
@@ -28,7 +31,7 @@ export type ValidatedPaginationForHasMoreOptions<TThisContext, TFlowContext, TRe
   MarkReadonly<
     MarkOptional<
       DeepRequired<PaginationForHasMoreOptions<TThisContext, TFlowContext, TResponse>>,
-      OptionalKeys
+      OptionalKeys | IncrementalOptionalKeys
     >,
     ReadonlyKeys
   >;
@@ -37,7 +40,7 @@ export type ValidatedPaginationForCursorOptions<TThisContext, TFlowContext, TRes
   MarkReadonly<
     MarkOptional<
       DeepRequired<PaginationForCursorOptions<TThisContext, TFlowContext, TResponse, TCursor>>,
-      OptionalKeys
+      OptionalKeys | IncrementalOptionalKeys | 'resolveCursorSeeds'
     >,
     ReadonlyKeys
   >;
@@ -50,11 +53,42 @@ export type ValidatedPaginationForListOptions<
 > = MarkReadonly<
   MarkOptional<
     DeepRequired<PaginationForListOptions<TThisContext, TFlowContext, TResponse, TPageListItem>>,
-    OptionalKeys
+    OptionalKeys | 'resolvePriority'
   >,
   ReadonlyKeys
 >;
 
+export type ValidatedPaginationForOffsetOptions<TThisContext, TFlowContext, TResponse> =
+  MarkReadonly<
+    MarkOptional<
+      DeepRequired<PaginationForOffsetOptions<TThisContext, TFlowContext, TResponse>>,
+      OptionalKeys | 'resolveTotal' | 'resolveItemCount'
+    >,
+    ReadonlyKeys
+  >;
+
+export type ValidatedPaginationForCrawlOptions<
+  TThisContext,
+  TFlowContext,
+  TResponse,
+  TPageListItem,
+> = MarkReadonly<
+  MarkOptional<
+    DeepRequired<PaginationForCrawlOptions<TThisContext, TFlowContext, TResponse, TPageListItem>>,
+    OptionalKeys | 'resolveKey'
+  >,
+  ReadonlyKeys
+>;
+
+export type ValidatedPaginationForTimeWindowOptions<TThisContext, TFlowContext, TResponse> =
+  MarkReadonly<
+    MarkOptional<
+      DeepRequired<PaginationForTimeWindowOptions<TThisContext, TFlowContext, TResponse>>,
+      OptionalKeys | 'to' | 'resolveIsTruncated'
+    >,
+    ReadonlyKeys
+  >;
+
 export type ValidatedScraperFlowOptions<
   TPaginationType extends PaginationType,
   TThisContext,
@@ -72,16 +106,35 @@ export type ValidatedScraperFlowOptions<
   ? ValidatedPaginationForCursorOptions<TThisContext, TFlowContext, TResponse, TCursor>
   : TPaginationType extends PaginationType.List
   ? ValidatedPaginationForListOptions<TThisContext, TFlowContext, TResponse, TPageListItem>
+  : TPaginationType extends PaginationType.Offset
+  ? ValidatedPaginationForOffsetOptions<TThisContext, TFlowContext, TResponse>
+  : TPaginationType extends PaginationType.Crawl
+  ? ValidatedPaginationForCrawlOptions<TThisContext, TFlowContext, TResponse, TPageListItem>
+  : TPaginationType extends PaginationType.TimeWindow
+  ? ValidatedPaginationForTimeWindowOptions<TThisContext, TFlowContext, TResponse>
   : never;
 
 type ReadonlyKeys = 'paginationType';
-type OptionalKeys = 'cycleInterval' | 'responseHandler' | 'summaryHandler';
+type OptionalKeys =
+  | 'cycleInterval'
+  | 'flowId'
+  | 'validateResponse'
+  | 'responseHandler'
+  | 'summaryHandler'
+  | 'rateLimiter'
+  | 'checkpointStore';
+type IncrementalOptionalKeys = 'resolveStopCondition' | 'resolveItemKeys' | 'seenKeyStore';
+type OptionalNestedKeys = 'shouldRetry';
 // eslint-disable-next-line @typescript-eslint/ban-types
-type DeepRequired<Type> = Type extends Function | Date | Error | RegExp
+type DeepRequired<Type> = Type extends Function | Date | Error | RegExp | unknown[]
   ? Type
   : Type extends object
   ? {
-      [Key in keyof Type]-?: DeepRequired<Type[Key]>;
+      [Key in keyof Type as Key extends OptionalNestedKeys ? never : Key]-?: DeepRequired<
+        Type[Key]
+      >;
+    } & {
+      [Key in keyof Type as Key extends OptionalNestedKeys ? Key : never]?: Type[Key];
     }
   : Type;
 type MarkOptional<Type, Keys extends keyof Type> = Type extends Type
@@ -0,0 +1,72 @@
+interface AdaptiveConcurrencyOptions {
+  min: number;
+  max: number;
+  decreaseFactor: number;
+  latencyTolerance: number;
+}
+
+/**
+ * Additive increase / multiplicative decrease of the concurrency,
+ * based on the result and the duration of each page.
+ */
+export class AdaptiveConcurrencyController {
+  #latencies: number[];
+  #baselineLatency: number | undefined;
+  #lastAdjustmentTime: number;
+
+  constructor() {
+    this.#latencies = [];
+    this.#baselineLatency = undefined;
+    this.#lastAdjustmentTime = 0;
+  }
+
+  /**
+   * @returns {} New concurrency, or the current one if it should not be changed.
+   */
+  record(
+    concurrency: number,
+    options: AdaptiveConcurrencyOptions,
+    successful: boolean,
+    time: number,
+  ): number {
+    // Pages started before the last adjustment reflect the previous concurrency
+    if (Date.now() - time < this.#lastAdjustmentTime) {
+      return this._clamp(concurrency, options);
+    }
+
+    if (!successful) {
+      return this._adjust(Math.floor(concurrency * options.decreaseFactor), options);
+    }
+
+    this.#latencies.push(time);
+
+    // Wait for one page per flow before the next decision
+    if (this.#latencies.length < concurrency) {
+      return this._clamp(concurrency, options);
+    }
+
+    const avgLatency =
+      this.#latencies.reduce((sum, time) => sum + time, 0) / this.#latencies.length;
+    const baselineLatency = this.#baselineLatency ?? avgLatency;
+
+    // Slowly follows the latency, so a lasting slowdown is accepted as the new baseline
+    this.#baselineLatency = baselineLatency * 0.8 + avgLatency * 0.2;
+
+    if (avgLatency > baselineLatency * options.latencyTolerance) {
+      return this._adjust(Math.floor(concurrency * options.decreaseFactor), options);
+    }
+
+    return this._adjust(concurrency + 1, options);
+  }
+
+  private _adjust(concurrency: number, options: AdaptiveConcurrencyOptions): number {
+    this.#latencies = [];
+    this.#lastAdjustmentTime = Date.now();
+
+    return this._clamp(concurrency, options);
+  }
+
+  private _clamp(concurrency: number, options: AdaptiveConcurrencyOptions): number {
+    return Math.max(options.min, Math.min(options.max, concurrency));
+  }
+}
@@ -0,0 +1,79 @@
+interface CircuitBreakerOptions {
+  maxConsecutiveFailures: number;
+  errorRateThreshold: number;
+  errorRateWindow: number;
+  cooldown: number;
+}
+
+/**
+ * Tracks the health of one flow context.
+ *
+ * When tripped, the context is left out for the cooldown, then its next request is a trial:
+ * success closes the breaker, failure trips it again.
+ */
+export class CircuitBreaker {
+  #consecutiveFailures: number;
+  #results: boolean[];
+  #trippedUntil: number | undefined;
+
+  constructor() {
+    this.#consecutiveFailures = 0;
+    this.#results = [];
+    this.#trippedUntil = undefined;
+  }
+
+  /**
+   * Unix timestamp of the cooldown end, in `ms`. `undefined` if not tripped.
+   */
+  get trippedUntil(): number | undefined {
+    return this.#trippedUntil;
+  }
+
+  /**
+   * If the context should not be used until the cooldown ends.
+   */
+  get isOpen(): boolean {
+    return typeof this.#trippedUntil !== 'undefined' && this.#trippedUntil > Date.now();
+  }
+
+  /**
+   * @returns {} `'tripped'` or `'recovered'` if the state has changed, `undefined` otherwise.
+   */
+  record(successful: boolean, options: CircuitBreakerOptions): 'tripped' | 'recovered' | undefined {
+    // Trial request after the cooldown
+    if (typeof this.#trippedUntil !== 'undefined') {
+      if (successful) {
+        this.#trippedUntil = undefined;
+
+        return 'recovered';
+      }
+
+      this.#trippedUntil = Date.now() + options.cooldown;
+
+      return 'tripped';
+    }
+
+    this.#consecutiveFailures = successful ? 0 : this.#consecutiveFailures + 1;
+    this.#results.push(successful);
+
+    if (this.#results.length > options.errorRateWindow) {
+      this.#results.splice(0, this.#results.length - options.errorRateWindow);
+    }
+
+    const failures = this.#results.filter((result) => !result).length;
+
+    if (
+      this.#consecutiveFailures >= options.maxConsecutiveFailures ||
+      (this.#results.length >= options.errorRateWindow &&
+        failures / this.#results.length >= options.errorRateThreshold)
+    ) {
+      this.#consecutiveFailures = 0;
+      this.#results = [];
+      this.#trippedUntil = Date.now() + options.cooldown;
+
+      return 'tripped';
+    }
+
+    return undefined;
+  }
+}
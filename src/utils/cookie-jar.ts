@@ -0,0 +1,147 @@
+interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  /**
+   * If the cookie is sent only to the exact domain, without its subdomains.
+   */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  /**
+   * Unix timestamp, in `ms`.
+   */
+  expires: number;
+}
+
+/**
+ * Keeps the cookies set by the responses, to send them with the next requests.
+ */
+export class CookieJar {
+  #cookies: Map<string, Cookie>;
+
+  constructor() {
+    this.#cookies = new Map();
+  }
+
+  /**
+   * Store the cookies from the `set-cookie` headers of a response.
+   */
+  setCookies(setCookieHeaders: readonly string[], url: URL): void {
+    for (const header of setCookieHeaders) {
+      const cookie = this._parse(header, url);
+
+      if (!cookie) continue;
+
+      const key = `${cookie.domain};${cookie.path};${cookie.name}`;
+
+      if (cookie.expires <= Date.now()) {
+        this.#cookies.delete(key);
+      } else {
+        this.#cookies.set(key, cookie);
+      }
+    }
+  }
+
+  /**
+   * @returns {} Value of the `cookie` header for the request, or `undefined` if there are no cookies to send.
+   */
+  getCookieHeader(url: URL): string | undefined {
+    const now = Date.now();
+    const hostname = url.hostname.toLowerCase();
+    const pairs: string[] = [];
+
+    for (const [key, cookie] of this.#cookies) {
+      if (cookie.expires <= now) {
+        this.#cookies.delete(key);
+
+        continue;
+      }
+
+      const domainMatches = cookie.hostOnly
+        ? hostname === cookie.domain
+        : hostname === cookie.domain || hostname.endsWith(`.${cookie.domain}`);
+      const pathMatches =
+        url.pathname === cookie.path ||
+        url.pathname.startsWith(cookie.path.endsWith('/') ? cookie.path : `${cookie.path}/`);
+
+      if (domainMatches && pathMatches && (!cookie.secure || url.protocol === 'https:')) {
+        pairs.push(`${cookie.name}=${cookie.value}`);
+      }
+    }
+
+    return pairs.length ? pairs.join('; ') : undefined;
+  }
+
+  private _parse(header: string, url: URL): Cookie | undefined {
+    const [pair = '', ...attributes] = header.split(';');
+    const separatorIndex = pair.indexOf('=');
+
+    if (separatorIndex <= 0) return undefined;
+
+    const cookie: Cookie = {
+      name: pair.slice(0, separatorIndex).trim(),
+      value: pair.slice(separatorIndex + 1).trim(),
+      domain: url.hostname.toLowerCase(),
+      hostOnly: true,
+      path: defaultPath(url),
+      secure: false,
+      expires: Number.POSITIVE_INFINITY,
+    };
+    let maxAgeSet = false;
+
+    for (const attribute of attributes) {
+      const [name = '', ...rest] = attribute.split('=');
+      const value = rest.join('=').trim();
+
+      switch (name.trim().toLowerCase()) {
+        case 'domain': {
+          const domain = value.replace(/^\./, '').toLowerCase();
+
+          // A response cannot set cookies for other domains
+          if (cookie.domain !== domain && !cookie.domain.endsWith(`.${domain}`)) {
+            return undefined;
+          }
+
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+          break;
+        }
+        case 'path':
+          if (value.startsWith('/')) {
+            cookie.path = value;
+          }
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'max-age': {
+          const seconds = Number(value);
+
+          if (Number.isFinite(seconds)) {
+            cookie.expires = Date.now() + seconds * 1000;
+            maxAgeSet = true;
+          }
+          break;
+        }
+        case 'expires': {
+          const expires = Date.parse(value);
+
+          // Max-Age takes precedence over Expires
+          if (!maxAgeSet && Number.isFinite(expires)) {
+            cookie.expires = expires;
+          }
+          break;
+        }
+      }
+    }
+
+    return cookie;
+  }
+}
+
+function defaultPath(url: URL): string {
+  const lastSlashIndex = url.pathname.lastIndexOf('/');
+
+  return lastSlashIndex > 0 ? url.pathname.slice(0, lastSlashIndex) : '/';
+}
@@ -1,7 +1,39 @@
-import type { CycleSummary } from '../types/scraper-flow-options.js';
+import type {
+  CrawlStats,
+  CursorChainStats,
+  CycleEndReason,
+  CycleSummary,
+  DeadLetter,
+  FlowStats,
+  TimeWindowPage,
+  TimeWindowStats,
+} from '../types/scraper-flow-options.js';
+import type { CheckpointFlowStats, CycleCheckpoint } from '../types/checkpoint.js';
+
+type MutableFlowStats = { -readonly [K in keyof CheckpointFlowStats]: CheckpointFlowStats[K] };
+type MutableCrawlStats = { -readonly [K in keyof CrawlStats]: CrawlStats[K] };
+type MutableTimeWindowStats = Omit<
+  { -readonly [K in keyof TimeWindowStats]: TimeWindowStats[K] },
+  'failedWindowList'
+> & { failedWindowList: TimeWindowPage[] };
+type MutableCursorChainStats = { -readonly [K in keyof CursorChainStats]: CursorChainStats[K] };
 
 export class CycleSummaryHelper {
   completed: boolean;
+  /**
+   * If the cycle was aborted by a fatal error, a failed page list or because all flow contexts were tripped.
+   */
+  aborted: boolean;
+  /**
+   * Why the cycle was ended early. Set on each path that ends the cycle early, the first reason is kept,
+   * except for a fatal error. Used only if the cycle was not completed.
+   */
+  endReason: CycleEndReason | undefined;
+  /**
+   * Called with the timing of each successful or failed page.
+   */
+  onPageTiming: ((successful: boolean, time: number) => void) | undefined;
+  deadLetters: Map<number, DeadLetter>;
   stats: {
     totalPageCount: number;
     failedPageList: Set<number>;
@@ -15,10 +47,27 @@ export class CycleSummaryHelper {
         failed: [number, number];
       };
     };
+    perFlow: Map<string, MutableFlowStats>;
+    /**
+     * Only for `PaginationType.Crawl`.
+     */
+    crawl: MutableCrawlStats | undefined;
+    /**
+     * Only for `PaginationType.TimeWindow`.
+     */
+    timeWindow: MutableTimeWindowStats | undefined;
+    /**
+     * Only for `PaginationType.Cursor` with cursor seeds.
+     */
+    cursorChains: MutableCursorChainStats[] | undefined;
   };
 
   constructor() {
     this.completed = false;
+    this.aborted = false;
+    this.endReason = undefined;
+    this.onPageTiming = undefined;
+    this.deadLetters = new Map();
     this.stats = {
       totalPageCount: 0,
       failedPageList: new Set(),
@@ -32,6 +81,75 @@ export class CycleSummaryHelper {
           failed: [0, 0],
         },
       },
+      perFlow: new Map(),
+      crawl: undefined,
+      timeWindow: undefined,
+      cursorChains: undefined,
+    };
+  }
+
+  /**
+   * Restore the helper state from a checkpoint.
+   */
+  static fromCheckpoint(checkpoint: CycleCheckpoint['summary']): CycleSummaryHelper {
+    const helper = new CycleSummaryHelper();
+    const { stats } = checkpoint;
+
+    helper.completed = checkpoint.completed;
+    helper.deadLetters = new Map(
+      checkpoint.deadLetters.map((deadLetter) => [deadLetter.id, deadLetter]),
+    );
+    helper.stats.totalPageCount = stats.totalPageCount;
+    helper.stats.failedPageList = new Set(stats.failedPageList);
+    helper.stats.totalErrorCount = stats.totalErrorCount;
+    helper.stats.timings.startedAt = stats.timings.startedAt;
+    helper.stats.timings.avg = {
+      all: [...stats.timings.avg.all],
+      successful: [...stats.timings.avg.successful],
+      failed: [...stats.timings.avg.failed],
+    };
+    helper.stats.perFlow = new Map(
+      Object.entries(stats.perFlow).map(([flowId, flowStats]) => [flowId, { ...flowStats }]),
+    );
+    helper.stats.crawl = stats.crawl ? { ...stats.crawl } : undefined;
+    helper.stats.timeWindow = stats.timeWindow
+      ? { ...stats.timeWindow, failedWindowList: [...stats.timeWindow.failedWindowList] }
+      : undefined;
+    helper.stats.cursorChains = stats.cursorChains?.map((chainStats) => ({ ...chainStats }));
+
+    return helper;
+  }
+
+  toCheckpoint(): CycleCheckpoint['summary'] {
+    return {
+      completed: this.completed,
+      deadLetters: [...this.deadLetters.values()],
+      stats: {
+        totalPageCount: this.stats.totalPageCount,
+        failedPageList: [...this.stats.failedPageList],
+        totalErrorCount: this.stats.totalErrorCount,
+        timings: {
+          startedAt: this.stats.timings.startedAt,
+          avg: {
+            all: [...this.stats.timings.avg.all],
+            successful: [...this.stats.timings.avg.successful],
+            failed: [...this.stats.timings.avg.failed],
+          },
+        },
+        perFlow: Object.fromEntries(
+          [...this.stats.perFlow].map(([flowId, flowStats]) => [flowId, { ...flowStats }]),
+        ),
+        ...(this.stats.crawl && { crawl: { ...this.stats.crawl } }),
+        ...(this.stats.timeWindow && {
+          timeWindow: {
+            ...this.stats.timeWindow,
+            failedWindowList: [...this.stats.timeWindow.failedWindowList],
+          },
+        }),
+        ...(this.stats.cursorChains && {
+          cursorChains: this.stats.cursorChains.map((chainStats) => ({ ...chainStats })),
+        }),
+      },
     };
   }
 
@@ -44,6 +162,70 @@ export class CycleSummaryHelper {
 
     timing[0] += time;
     timing[1]++;
+
+    if (type !== 'all') {
+      this.onPageTiming?.(type === 'successful', time);
+    }
+  }
+
+  /**
+   * Add the result of one page fetch attempt made by the flow.
+   */
+  addFlowResult(flowId: string, successful: boolean, retry: boolean, time: number): void {
+    let flowStats = this.stats.perFlow.get(flowId);
+
+    if (!flowStats) {
+      flowStats = {
+        pageCount: 0,
+        successCount: 0,
+        failureCount: 0,
+        retryCount: 0,
+        totalTime: 0,
+        maxTime: 0,
+      };
+
+      this.stats.perFlow.set(flowId, flowStats);
+    }
+
+    flowStats.pageCount++;
+    flowStats.totalTime += time;
+    flowStats.maxTime = Math.max(flowStats.maxTime, time);
+
+    if (successful) {
+      flowStats.successCount++;
+    } else {
+      flowStats.failureCount++;
+    }
+    if (retry) {
+      flowStats.retryCount++;
+    }
+  }
+
+  summarizePerFlow(): Readonly<Record<string, FlowStats>> {
+    const perFlow: Record<string, FlowStats> = {};
+
+    for (const [flowId, flowStats] of this.stats.perFlow) {
+      perFlow[flowId] = Object.freeze({
+        pageCount: flowStats.pageCount,
+        successCount: flowStats.successCount,
+        failureCount: flowStats.failureCount,
+        retryCount: flowStats.retryCount,
+        timings: Object.freeze({
+          avg: flowStats.totalTime / flowStats.pageCount || 0,
+          max: flowStats.maxTime,
+        }),
+      });
+    }
+
+    return Object.freeze(perFlow);
+  }
+
+  /**
+   * Mark the page as failed, keeping the data needed to fetch it again.
+   */
+  addFailedPage(id: number, page: unknown, error: unknown, attempts: number): void {
+    this.stats.failedPageList.add(id);
+    this.deadLetters.set(id, Object.freeze({ id, page, error, attempts }));
   }
 
   summarize(): CycleSummary {
@@ -51,8 +233,12 @@ export class CycleSummaryHelper {
       this.setTotalTime();
     }
 
+    const completed = this.completed && !this.aborted;
+
     return Object.freeze({
-      completed: this.completed,
+      completed,
+      endReason: completed ? 'completed' : this.endReason ?? 'failLimit',
+      deadLetters: Object.freeze([...this.deadLetters.values()]),
       stats: Object.freeze({
         totalPageCount: this.stats.totalPageCount,
         failedPageList: [...this.stats.failedPageList],
@@ -67,6 +253,19 @@ export class CycleSummaryHelper {
             failed: this.stats.timings.avg.failed[0] / this.stats.timings.avg.failed[1] || 0,
           }),
         }),
+        perFlow: this.summarizePerFlow(),
+        ...(this.stats.crawl && { crawl: Object.freeze({ ...this.stats.crawl }) }),
+        ...(this.stats.timeWindow && {
+          timeWindow: Object.freeze({
+            ...this.stats.timeWindow,
+            failedWindowList: Object.freeze([...this.stats.timeWindow.failedWindowList]),
+          }),
+        }),
+        ...(this.stats.cursorChains && {
+          cursorChains: Object.freeze(
+            this.stats.cursorChains.map((chainStats) => Object.freeze({ ...chainStats })),
+          ),
+        }),
       }),
     });
   }
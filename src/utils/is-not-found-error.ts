@@ -0,0 +1,3 @@
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof Error && (err as NodeJS.ErrnoException).code === 'ENOENT';
+}
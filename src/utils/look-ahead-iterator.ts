@@ -0,0 +1,91 @@
+/**
+ * Pulls values from an async iterable one at a time, keeping a few of them fetched ahead.
+ */
+export class LookAheadIterator<T> {
+  readonly lookAhead: number;
+
+  #iterator: AsyncIterator<T>;
+  #buffer: Promise<IteratorResult<T, undefined>>[];
+  #lastPull: Promise<unknown>;
+  #done: boolean;
+
+  constructor(iterable: AsyncIterable<T>, lookAhead: number) {
+    this.lookAhead = lookAhead;
+
+    this.#iterator = iterable[Symbol.asyncIterator]();
+    this.#buffer = [];
+    this.#lastPull = Promise.resolve();
+    this.#done = false;
+
+    this._fill();
+  }
+
+  /**
+   * Take the next value. Rejects if the iterable throws.
+   */
+  next(): Promise<IteratorResult<T, undefined>> {
+    const result = this.#buffer.shift() ?? this._pull();
+
+    this._fill();
+
+    return result;
+  }
+
+  /**
+   * Stop pulling and let the iterable clean up.
+   */
+  async close(): Promise<void> {
+    if (this.#done) return;
+
+    this.#done = true;
+    this.#buffer = [];
+
+    await this.#iterator.return?.();
+  }
+
+  private _fill(): void {
+    while (!this.#done && this.#buffer.length < this.lookAhead) {
+      this.#buffer.push(this._pull());
+    }
+  }
+
+  /**
+   * Pulls are chained, because not every iterator supports concurrent `next` calls.
+   */
+  private _pull(): Promise<IteratorResult<T, undefined>> {
+    const pull = this.#lastPull.then(async (): Promise<IteratorResult<T, undefined>> => {
+      if (this.#done) {
+        return { value: undefined, done: true };
+      }
+
+      try {
+        const result = await this.#iterator.next();
+
+        if (result.done) {
+          this.#done = true;
+
+          return { value: undefined, done: true };
+        }
+
+        return result;
+      } catch (e) {
+        this.#done = true;
+
+        throw e;
+      }
+    });
+
+    // Buffered rejections are handled once taken
+    this.#lastPull = pull.catch(() => undefined);
+
+    return pull;
+  }
+}
+
+export function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<symbol, unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
@@ -0,0 +1,112 @@
+interface PriorityQueueEntry<T> {
+  value: T;
+  priority: number;
+  order: number;
+}
+
+/**
+ * Binary heap, which takes out the value with the highest priority first.
+ *
+ * Values with the same priority are taken out in the order they were added.
+ */
+export class PriorityQueue<T> {
+  #heap: PriorityQueueEntry<T>[];
+  #nextOrder: number;
+
+  constructor() {
+    this.#heap = [];
+    this.#nextOrder = 0;
+  }
+
+  get size(): number {
+    return this.#heap.length;
+  }
+
+  push(value: T, priority: number): void {
+    this.#heap.push({ value, priority, order: this.#nextOrder++ });
+
+    this._siftUp(this.#heap.length - 1);
+  }
+
+  /**
+   * Priority of the value, which would be taken out next.
+   */
+  peekPriority(): number | undefined {
+    return this.#heap[0]?.priority;
+  }
+
+  shift(): { value: T; priority: number } | undefined {
+    const first = this.#heap[0];
+    const last = this.#heap.pop();
+
+    if (!first || !last) return undefined;
+
+    if (first !== last) {
+      this.#heap[0] = last;
+
+      this._siftDown(0);
+    }
+
+    return { value: first.value, priority: first.priority };
+  }
+
+  /**
+   * Values in the order they would be taken out.
+   */
+  toArray(): { value: T; priority: number }[] {
+    return [...this.#heap]
+      .sort((a, b) => (this._isBefore(a, b) ? -1 : 1))
+      .map(({ value, priority }) => ({ value, priority }));
+  }
+
+  private _isBefore(a: PriorityQueueEntry<T>, b: PriorityQueueEntry<T>): boolean {
+    return a.priority > b.priority || (a.priority === b.priority && a.order < b.order);
+  }
+
+  private _isBeforeAt(index: number, otherIndex: number): boolean {
+    const entry = this.#heap[index];
+    const other = this.#heap[otherIndex];
+
+    return !!entry && !!other && this._isBefore(entry, other);
+  }
+
+  private _swap(index: number, otherIndex: number): void {
+    const heap = this.#heap;
+
+    [heap[index], heap[otherIndex]] = [heap[otherIndex], heap[index]] as [
+      PriorityQueueEntry<T>,
+      PriorityQueueEntry<T>,
+    ]; // Existence is checked by the callers
+  }
+
+  private _siftUp(index: number): void {
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+
+      if (!this._isBeforeAt(index, parentIndex)) break;
+
+      this._swap(index, parentIndex);
+      index = parentIndex;
+    }
+  }
+
+  private _siftDown(index: number): void {
+    for (;;) {
+      const leftIndex = index * 2 + 1;
+      const rightIndex = leftIndex + 1;
+      let firstIndex = index;
+
+      if (this._isBeforeAt(leftIndex, firstIndex)) {
+        firstIndex = leftIndex;
+      }
+      if (this._isBeforeAt(rightIndex, firstIndex)) {
+        firstIndex = rightIndex;
+      }
+
+      if (firstIndex === index) break;
+
+      this._swap(index, firstIndex);
+      index = firstIndex;
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * `JSON.stringify` replacer. Errors have no enumerable properties, so they would be written as `{}`.
+ */
+export function replaceErrors(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+
+  return value;
+}
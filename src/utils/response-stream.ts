@@ -0,0 +1,124 @@
+/**
+ * Async iterator over the responses, with a bounded buffer.
+ */
+export class ResponseStream<T> implements AsyncIterableIterator<T> {
+  readonly bufferSize: number;
+
+  #buffer: T[];
+  #ended: boolean;
+  #pendingReads: ((result: IteratorResult<T, undefined>) => void)[];
+  #spaceListeners: Set<() => void>;
+  #onReturn: () => void;
+
+  /**
+   * @param onReturn Called when the consumer stops iterating.
+   */
+  constructor(bufferSize: number, onReturn: () => void) {
+    this.bufferSize = bufferSize;
+
+    this.#buffer = [];
+    this.#ended = false;
+    this.#pendingReads = [];
+    this.#spaceListeners = new Set();
+    this.#onReturn = onReturn;
+  }
+
+  /**
+   * If the buffer is full and the producer should wait.
+   */
+  get isFull(): boolean {
+    return !this.#ended && this.#buffer.length >= this.bufferSize;
+  }
+
+  push(value: T): void {
+    if (this.#ended) return;
+
+    const read = this.#pendingReads.shift();
+
+    if (read) {
+      read({ value, done: false });
+    } else {
+      this.#buffer.push(value);
+    }
+  }
+
+  /**
+   * End the stream. Buffered values can still be read.
+   */
+  end(): void {
+    if (this.#ended) return;
+
+    this.#ended = true;
+
+    for (const read of this.#pendingReads) {
+      read({ value: undefined, done: true });
+    }
+
+    this.#pendingReads = [];
+    this._notifySpace();
+  }
+
+  /**
+   * Wait until there is space in the buffer or the stream has ended.
+   *
+   * @returns {} `true` if waiting was canceled, `false` otherwise.
+   */
+  waitForSpace(signal?: AbortSignal): Promise<boolean> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        return resolve(true);
+      }
+
+      const onspace = (): void => {
+        signal?.removeEventListener('abort', onabort);
+        resolve(false);
+      };
+      const onabort = (): void => {
+        this.#spaceListeners.delete(onspace);
+        resolve(true);
+      };
+
+      signal?.addEventListener('abort', onabort, { once: true });
+      this.#spaceListeners.add(onspace);
+    });
+  }
+
+  next(): Promise<IteratorResult<T, undefined>> {
+    if (this.#buffer.length) {
+      const [value] = this.#buffer.splice(0, 1) as [T];
+
+      this._notifySpace();
+
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.#ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.#pendingReads.push(resolve);
+    });
+  }
+
+  return(): Promise<IteratorResult<T, undefined>> {
+    this.#buffer = [];
+    this.end();
+    this.#onReturn();
+
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  private _notifySpace(): void {
+    const listeners = [...this.#spaceListeners];
+
+    this.#spaceListeners.clear();
+
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+}
@@ -2,9 +2,14 @@ import { PaginationType } from '../enums/pagination.js';
 import type {
   ScraperFlowOptions,
   IntervalStrategy,
+  BackoffStrategy,
+  RetryOrder,
+  ResponseHandling,
   LogType,
 } from '../types/scraper-flow-options.js';
 import type { ValidatedScraperFlowOptions } from '../types/validated-options.js';
+import type { SeenKeyStore } from '../types/seen-key-store.js';
+import type { ResponseSink } from '../types/response-sink.js';
 
 // All options with default values
 const DEFAULT_OPTIONS = {
@@ -16,18 +21,61 @@ const DEFAULT_OPTIONS = {
   resetThisContext: false,
   initFlowContext: () => ({}),
   resetFlowContext: false,
+  flowId: undefined,
+  validateResponse: undefined,
   responseHandler: undefined,
+  responseHandling: 'detached' as ResponseHandling,
+  maxPendingResponses: Number.POSITIVE_INFINITY,
+  sinks: [] as ResponseSink[],
+  // Typed as empty, so the list fits the plugins of any flow context and response type
+  plugins: [] as never[],
   summaryHandler: undefined,
   errorHandlingPolicy: {
     retryLimit: 2,
     retryDistinctFlows: true,
+    retryOrder: 'first' as RetryOrder,
     skipPageIfPossible: false,
     maxTotalPageFails: Number.POSITIVE_INFINITY,
     maxConsecutivePageFails: Number.POSITIVE_INFINITY,
+    retryBackoff: {
+      strategy: 'constant' as BackoffStrategy,
+      delay: 0,
+      maxDelay: Number.POSITIVE_INFINITY,
+      jitter: false,
+    },
+    shouldRetry: undefined,
+  },
+  cycleBudget: {
+    maxPages: Number.POSITIVE_INFINITY,
+    maxDurationMs: Number.POSITIVE_INFINITY,
+    maxErrors: Number.POSITIVE_INFINITY,
+  },
+  rateLimit: {
+    requests: Number.POSITIVE_INFINITY,
+    window: 1000,
+    burst: 1,
   },
+  rateLimiter: undefined,
+  circuitBreaker: {
+    enabled: false,
+    maxConsecutiveFailures: 5,
+    errorRateThreshold: 0.5,
+    errorRateWindow: 20,
+    cooldown: 30000,
+  },
+  checkpointStore: undefined,
+  checkpointInterval: 5000,
+  resume: false,
   logger: ['validationWarning', 'generalError'] as LogType[],
   concurrency: 1,
   removeContextForRedundantFlows: true,
+  adaptiveConcurrency: {
+    enabled: false,
+    min: 1,
+    max: 10,
+    decreaseFactor: 0.5,
+    latencyTolerance: 2,
+  },
   paginationType: PaginationType.None,
   fetchHandler: undefined,
   paginationStart: 1,
@@ -36,6 +84,25 @@ const DEFAULT_OPTIONS = {
   resolveHasMore: undefined,
   resolveCursor: undefined,
   resolveList: undefined,
+  pageSize: 20,
+  resolveTotal: undefined,
+  resolveItemCount: undefined,
+  resolveSeeds: undefined,
+  resolveLinks: undefined,
+  resolveKey: undefined,
+  maxDepth: Number.POSITIVE_INFINITY,
+  maxItems: Number.POSITIVE_INFINITY,
+  from: undefined,
+  to: undefined,
+  windowSize: 86400000,
+  minWindowSize: 1000,
+  resolveIsTruncated: undefined,
+  resolveCursorSeeds: undefined,
+  listLookAhead: 10,
+  resolvePriority: undefined,
+  resolveStopCondition: undefined,
+  resolveItemKeys: undefined,
+  seenKeyStore: undefined,
 };
 // Used for type safety here, to prevent missing keys
 const ALL_OPTIONS_REQUIRED: AllUnionDeepRequiredAndUndefinable<
@@ -175,10 +242,41 @@ export function validateOptions<
 
             logger(keyPath, `Invalid value "${String(value)}".`);
 
+            return true;
+          // Response handling
+          case 'responseHandling':
+            if (typeof target[p] === 'undefined') {
+              target[p] = DEFAULT_OPTIONS[p];
+            }
+
+            if (typeof value === 'string') {
+              if (value === 'detached' || value === 'awaited') {
+                target[p] = value;
+
+                return true;
+              }
+
+              logger(keyPath, `Invalid response handling "${value}".`);
+
+              return true;
+            }
+            if (typeof value === 'undefined') {
+              target[p] = DEFAULT_OPTIONS[p];
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}".`);
+
             return true;
           // Numbers
           case 'concurrency':
           case 'paginationStart':
+          case 'checkpointInterval':
+          case 'pageSize':
+          case 'windowSize':
+          case 'minWindowSize':
+          case 'listLookAhead':
             if (typeof target[p] === 'undefined') {
               target[p] = DEFAULT_OPTIONS[p];
             }
@@ -187,7 +285,7 @@ export function validateOptions<
               if (Number.isFinite(value)) {
                 const intValue = Math.trunc(value);
 
-                target[p] = p === 'concurrency' ? Math.max(1, intValue) : intValue;
+                target[p] = p === 'paginationStart' ? intValue : Math.max(1, intValue);
 
                 return true;
               }
@@ -204,12 +302,66 @@ export function validateOptions<
 
             logger(keyPath, `Invalid value "${String(value)}".`);
 
+            return true;
+          // Timestamps
+          case 'from':
+          case 'to':
+            if (typeof value === 'number' || value instanceof Date) {
+              const time = value instanceof Date ? value.getTime() : value;
+
+              if (Number.isFinite(time)) {
+                target[p] = Math.trunc(time);
+
+                return true;
+              }
+
+              logger(keyPath, `Invalid time value "${String(value)}".`);
+
+              return true;
+            }
+            if (typeof value === 'undefined') {
+              target[p] = undefined;
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}".`);
+
+            return true;
+          // Limits
+          case 'maxDepth':
+          case 'maxItems':
+          case 'maxPendingResponses':
+            if (typeof target[p] === 'undefined') {
+              target[p] = DEFAULT_OPTIONS[p];
+            }
+
+            if (typeof value === 'number') {
+              if (!Number.isNaN(value)) {
+                target[p] = Math.max(p === 'maxDepth' ? 0 : 1, Math.trunc(value));
+
+                return true;
+              }
+
+              logger(keyPath, `Invalid number value "${value}".`);
+
+              return true;
+            }
+            if (typeof value === 'undefined') {
+              target[p] = DEFAULT_OPTIONS[p];
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}".`);
+
             return true;
           // Booleans
           case 'resetThisContext':
           case 'resetFlowContext':
           case 'removeContextForRedundantFlows':
           case 'paginationPrefetch':
+          case 'resume':
             if (typeof target[p] === 'undefined') {
               target[p] = DEFAULT_OPTIONS[p];
             }
@@ -255,6 +407,8 @@ export function validateOptions<
           case 'resolveHasMore':
           case 'resolveCursor':
           case 'resolveList':
+          case 'resolveSeeds':
+          case 'resolveLinks':
             if (typeof value === 'function') {
               target[p] = value as (...args: unknown[]) => never;
 
@@ -267,8 +421,18 @@ export function validateOptions<
 
             return true;
           // Optional functions
+          case 'flowId':
+          case 'validateResponse':
           case 'responseHandler':
           case 'summaryHandler':
+          case 'resolveTotal':
+          case 'resolveItemCount':
+          case 'resolveKey':
+          case 'resolveIsTruncated':
+          case 'resolveCursorSeeds':
+          case 'resolveStopCondition':
+          case 'resolveItemKeys':
+          case 'resolvePriority':
             if (typeof value === 'function' || typeof value === 'undefined') {
               target[p] = value as ((...args: unknown[]) => never) | undefined;
 
@@ -277,6 +441,333 @@ export function validateOptions<
 
             logger(keyPath, `Invalid value "${String(value)}".`);
 
+            return true;
+          // Rate limiter
+          case 'rateLimiter':
+            if (typeof value === 'undefined') {
+              target[p] = value;
+
+              return true;
+            }
+            if (
+              typeof value === 'object' &&
+              value !== null &&
+              typeof (value as Record<string, unknown>)['acquire'] === 'function'
+            ) {
+              target[p] = value as NonNullable<(typeof target)[typeof p]>;
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}". Must implement "acquire".`);
+
+            return true;
+          // Sinks
+          case 'sinks':
+            if (typeof target[p] === 'undefined') {
+              target[p] = [...DEFAULT_OPTIONS[p]];
+            }
+
+            if (
+              Array.isArray(value) &&
+              value.every(
+                (sink) =>
+                  typeof sink === 'object' &&
+                  sink !== null &&
+                  typeof (sink as Record<string, unknown>)['write'] === 'function',
+              )
+            ) {
+              target[p] = value as NonNullable<(typeof target)[typeof p]>;
+
+              return true;
+            }
+            if (typeof value === 'undefined') {
+              target[p] = [...DEFAULT_OPTIONS[p]];
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}". Each sink must implement "write".`);
+
+            return true;
+          // Plugins
+          case 'plugins':
+            if (typeof target[p] === 'undefined') {
+              target[p] = [...DEFAULT_OPTIONS[p]];
+            }
+
+            if (
+              Array.isArray(value) &&
+              value.every((plugin) => typeof plugin === 'object' && plugin !== null)
+            ) {
+              target[p] = value as NonNullable<(typeof target)[typeof p]>;
+
+              return true;
+            }
+            if (typeof value === 'undefined') {
+              target[p] = [...DEFAULT_OPTIONS[p]];
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}".`);
+
+            return true;
+          // Cycle budget
+          case 'cycleBudget':
+            if (typeof target[p] === 'undefined') {
+              target[p] = new Proxy({} as unknown as (typeof validatedOptions)['cycleBudget'], {
+                set: (target, p, value) => {
+                  const keyPath = `options.cycleBudget.${p.toString()}`;
+
+                  switch (p) {
+                    // Numbers
+                    case 'maxPages':
+                    case 'maxDurationMs':
+                    case 'maxErrors':
+                      if (typeof target[p] === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.cycleBudget[p];
+                      }
+
+                      if (typeof value === 'number') {
+                        if (value > 0) {
+                          target[p] = p === 'maxDurationMs' ? value : Math.ceil(value);
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid number value "${value}". Must be greater than 0.`);
+
+                        return true;
+                      }
+                      if (typeof value === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.cycleBudget[p];
+
+                        return true;
+                      }
+
+                      logger(keyPath, `Invalid value "${String(value)}".`);
+
+                      return true;
+                    default:
+                      logger(keyPath, 'Unknown property.');
+
+                      return true;
+                  }
+                },
+                deleteProperty: () => false,
+              });
+            }
+
+            // Applying provided options
+            for (const k of Object.keys(DEFAULT_OPTIONS.cycleBudget)) {
+              target[p][k] = value ? ((value as object)[k] as unknown) : undefined;
+            }
+
+            return true;
+          // Rate limit
+          case 'rateLimit':
+            if (typeof target[p] === 'undefined') {
+              target[p] = new Proxy({} as unknown as (typeof validatedOptions)['rateLimit'], {
+                set: (target, p, value) => {
+                  const keyPath = `options.rateLimit.${p.toString()}`;
+
+                  switch (p) {
+                    // Numbers
+                    case 'requests':
+                    case 'window':
+                    case 'burst':
+                      if (typeof target[p] === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.rateLimit[p];
+                      }
+
+                      if (typeof value === 'number') {
+                        if (value > 0 && (p === 'requests' || Number.isFinite(value))) {
+                          target[p] = value;
+
+                          return true;
+                        }
+
+                        logger(
+                          keyPath,
+                          p === 'requests'
+                            ? `Invalid number value "${value}". Must be greater than 0.`
+                            : `Invalid number value "${value}". Must be a finite number greater than 0.`,
+                        );
+
+                        return true;
+                      }
+                      if (typeof value === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.rateLimit[p];
+
+                        return true;
+                      }
+
+                      logger(keyPath, `Invalid value "${String(value)}".`);
+
+                      return true;
+                    default:
+                      logger(keyPath, 'Unknown property.');
+
+                      return true;
+                  }
+                },
+                deleteProperty: () => false,
+              });
+            }
+
+            // Applying provided options
+            for (const k of Object.keys(DEFAULT_OPTIONS.rateLimit)) {
+              target[p][k] = value ? ((value as object)[k] as unknown) : undefined;
+            }
+
+            return true;
+          // Circuit breaker
+          case 'circuitBreaker':
+            if (typeof target[p] === 'undefined') {
+              target[p] = new Proxy({} as unknown as (typeof validatedOptions)['circuitBreaker'], {
+                set: (target, p, value) => {
+                  const keyPath = `options.circuitBreaker.${p.toString()}`;
+
+                  switch (p) {
+                    // Booleans
+                    case 'enabled':
+                      if (typeof target[p] === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.circuitBreaker[p];
+                      }
+
+                      if (typeof value === 'boolean') {
+                        target[p] = value;
+
+                        return true;
+                      }
+                      if (typeof value === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.circuitBreaker[p];
+
+                        return true;
+                      }
+
+                      logger(keyPath, `Invalid value "${String(value)}".`);
+
+                      return true;
+                    // Numbers
+                    case 'maxConsecutiveFailures':
+                    case 'errorRateWindow':
+                    case 'cooldown':
+                      if (typeof target[p] === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.circuitBreaker[p];
+                      }
+
+                      if (typeof value === 'number') {
+                        if (!Number.isNaN(value)) {
+                          target[p] = Math.max(p === 'cooldown' ? 0 : 1, Math.trunc(value));
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid number value "${value}".`);
+
+                        return true;
+                      }
+                      if (typeof value === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.circuitBreaker[p];
+
+                        return true;
+                      }
+
+                      logger(keyPath, `Invalid value "${String(value)}".`);
+
+                      return true;
+                    // Error rate
+                    case 'errorRateThreshold':
+                      if (typeof target[p] === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.circuitBreaker[p];
+                      }
+
+                      if (typeof value === 'number') {
+                        if (value > 0 && value <= 1) {
+                          target[p] = value;
+
+                          return true;
+                        }
+
+                        logger(
+                          keyPath,
+                          `Invalid number value "${value}". Must be greater than 0 and not greater than 1.`,
+                        );
+
+                        return true;
+                      }
+                      if (typeof value === 'undefined') {
+                        target[p] = DEFAULT_OPTIONS.circuitBreaker[p];
+
+                        return true;
+                      }
+
+                      logger(keyPath, `Invalid value "${String(value)}".`);
+
+                      return true;
+                    default:
+                      logger(keyPath, 'Unknown property.');
+
+                      return true;
+                  }
+                },
+                deleteProperty: () => false,
+              });
+            }
+
+            // Applying provided options
+            for (const k of Object.keys(DEFAULT_OPTIONS.circuitBreaker)) {
+              target[p][k] = value ? ((value as object)[k] as unknown) : undefined;
+            }
+
+            return true;
+          // Checkpoint store
+          case 'checkpointStore':
+            if (typeof value === 'undefined') {
+              target[p] = value;
+
+              return true;
+            }
+            if (
+              typeof value === 'object' &&
+              value !== null &&
+              typeof (value as Record<string, unknown>)['load'] === 'function' &&
+              typeof (value as Record<string, unknown>)['save'] === 'function' &&
+              typeof (value as Record<string, unknown>)['clear'] === 'function'
+            ) {
+              target[p] = value as NonNullable<(typeof target)[typeof p]>;
+
+              return true;
+            }
+
+            logger(
+              keyPath,
+              `Invalid value "${String(value)}". Must implement "load", "save" and "clear".`,
+            );
+
+            return true;
+          // Seen key store
+          case 'seenKeyStore':
+            if (typeof value === 'undefined') {
+              target[p] = value;
+
+              return true;
+            }
+            if (
+              typeof value === 'object' &&
+              value !== null &&
+              typeof (value as Record<string, unknown>)['has'] === 'function' &&
+              typeof (value as Record<string, unknown>)['add'] === 'function'
+            ) {
+              target[p] = value as SeenKeyStore;
+
+              return true;
+            }
+
+            logger(keyPath, `Invalid value "${String(value)}". Must implement "has" and "add".`);
+
             return true;
           // Error Handling Policy
           case 'errorHandlingPolicy':
@@ -336,6 +827,155 @@ export function validateOptions<
 
                         logger(keyPath, `Invalid value "${String(value)}".`);
 
+                        return true;
+                      // Retry order
+                      case 'retryOrder':
+                        if (typeof target[p] === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.errorHandlingPolicy[p];
+                        }
+
+                        if (typeof value === 'string') {
+                          if (value === 'first' || value === 'last') {
+                            target[p] = value;
+
+                            return true;
+                          }
+
+                          logger(keyPath, `Invalid retry order "${value}".`);
+
+                          return true;
+                        }
+                        if (typeof value === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.errorHandlingPolicy[p];
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid value "${String(value)}".`);
+
+                        return true;
+                      // Optional functions
+                      case 'shouldRetry':
+                        if (typeof value === 'function' || typeof value === 'undefined') {
+                          target[p] = value as ((...args: unknown[]) => never) | undefined;
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid value "${String(value)}".`);
+
+                        return true;
+                      // Retry backoff
+                      case 'retryBackoff':
+                        if (typeof target[p] === 'undefined') {
+                          target[p] = new Proxy({} as unknown as (typeof target)['retryBackoff'], {
+                            set: (target, p, value) => {
+                              const keyPath = `options.errorHandlingPolicy.retryBackoff.${p.toString()}`;
+
+                              switch (p) {
+                                // Strategy
+                                case 'strategy':
+                                  if (typeof target[p] === 'undefined') {
+                                    target[p] = DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff[p];
+                                  }
+
+                                  if (typeof value === 'string') {
+                                    if (
+                                      value === 'constant' ||
+                                      value === 'linear' ||
+                                      value === 'exponential'
+                                    ) {
+                                      target[p] = value;
+
+                                      return true;
+                                    }
+
+                                    logger(keyPath, `Invalid backoff strategy "${value}".`);
+
+                                    return true;
+                                  }
+                                  if (typeof value === 'undefined') {
+                                    target[p] = DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff[p];
+
+                                    return true;
+                                  }
+
+                                  logger(keyPath, `Invalid value "${String(value)}".`);
+
+                                  return true;
+                                // Numbers
+                                case 'delay':
+                                case 'maxDelay':
+                                  if (typeof target[p] === 'undefined') {
+                                    target[p] = DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff[p];
+                                  }
+
+                                  if (typeof value === 'number') {
+                                    // An infinite max delay leaves the delay uncapped
+                                    if (
+                                      Number.isFinite(value) ||
+                                      (p === 'maxDelay' && value === Number.POSITIVE_INFINITY)
+                                    ) {
+                                      target[p] = Math.max(0, Math.trunc(value));
+
+                                      return true;
+                                    }
+
+                                    logger(
+                                      keyPath,
+                                      `Invalid number value "${value}". Must be a finite number${
+                                        p === 'maxDelay' ? ' or Infinity' : ''
+                                      }.`,
+                                    );
+
+                                    return true;
+                                  }
+                                  if (typeof value === 'undefined') {
+                                    target[p] = DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff[p];
+
+                                    return true;
+                                  }
+
+                                  logger(keyPath, `Invalid value "${String(value)}".`);
+
+                                  return true;
+                                // Booleans
+                                case 'jitter':
+                                  if (typeof target[p] === 'undefined') {
+                                    target[p] = DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff[p];
+                                  }
+
+                                  if (typeof value === 'boolean') {
+                                    target[p] = value;
+
+                                    return true;
+                                  }
+                                  if (typeof value === 'undefined') {
+                                    target[p] = DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff[p];
+
+                                    return true;
+                                  }
+
+                                  logger(keyPath, `Invalid value "${String(value)}".`);
+
+                                  return true;
+                                default:
+                                  logger(keyPath, 'Unknown property.');
+
+                                  return true;
+                              }
+                            },
+                            deleteProperty: () => false,
+                          });
+                        }
+
+                        // Applying provided options
+                        for (const k of Object.keys(
+                          DEFAULT_OPTIONS.errorHandlingPolicy.retryBackoff,
+                        )) {
+                          target[p][k] = value ? ((value as object)[k] as unknown) : undefined;
+                        }
+
                         return true;
                       default:
                         logger(keyPath, 'Unknown property.');
@@ -353,6 +993,138 @@ export function validateOptions<
               target[p][k] = value ? ((value as object)[k] as unknown) : undefined;
             }
 
+            return true;
+          // Adaptive concurrency
+          case 'adaptiveConcurrency':
+            if (typeof target[p] === 'undefined') {
+              target[p] = new Proxy(
+                {} as unknown as (typeof DEFAULT_OPTIONS)['adaptiveConcurrency'],
+                {
+                  set: (target, p, value) => {
+                    const keyPath = `options.adaptiveConcurrency.${p.toString()}`;
+
+                    switch (p) {
+                      // Booleans
+                      case 'enabled':
+                        if (typeof target[p] === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.adaptiveConcurrency[p];
+                        }
+
+                        if (typeof value === 'boolean') {
+                          target[p] = value;
+
+                          return true;
+                        }
+                        if (typeof value === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.adaptiveConcurrency[p];
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid value "${String(value)}".`);
+
+                        return true;
+                      // Concurrency bounds
+                      case 'min':
+                      case 'max':
+                        if (typeof target[p] === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.adaptiveConcurrency[p];
+                        }
+
+                        if (typeof value === 'number') {
+                          if (!Number.isNaN(value)) {
+                            const bound = Math.max(1, Math.trunc(value));
+
+                            if (
+                              p === 'min'
+                                ? typeof target.max !== 'undefined' && bound > target.max
+                                : typeof target.min !== 'undefined' && bound < target.min
+                            ) {
+                              logger(
+                                keyPath,
+                                p === 'min'
+                                  ? `Invalid number value "${value}". Must not be greater than max.`
+                                  : `Invalid number value "${value}". Must not be less than min.`,
+                              );
+
+                              return true;
+                            }
+
+                            target[p] = bound;
+
+                            return true;
+                          }
+
+                          logger(keyPath, `Invalid number value "${value}".`);
+
+                          return true;
+                        }
+                        if (typeof value === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.adaptiveConcurrency[p];
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid value "${String(value)}".`);
+
+                        return true;
+                      // Multipliers
+                      case 'decreaseFactor':
+                      case 'latencyTolerance':
+                        if (typeof target[p] === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.adaptiveConcurrency[p];
+                        }
+
+                        if (typeof value === 'number') {
+                          if (
+                            p === 'decreaseFactor'
+                              ? value > 0 && value < 1
+                              : value >= 1 && value < Infinity
+                          ) {
+                            target[p] = value;
+
+                            return true;
+                          }
+
+                          logger(
+                            keyPath,
+                            p === 'decreaseFactor'
+                              ? `Invalid number value "${value}". Must be greater than 0 and less than 1.`
+                              : `Invalid number value "${value}". Must be a finite number not less than 1.`,
+                          );
+
+                          return true;
+                        }
+                        if (typeof value === 'undefined') {
+                          target[p] = DEFAULT_OPTIONS.adaptiveConcurrency[p];
+
+                          return true;
+                        }
+
+                        logger(keyPath, `Invalid value "${String(value)}".`);
+
+                        return true;
+                      default:
+                        logger(keyPath, 'Unknown property.');
+
+                        return true;
+                    }
+                  },
+                  deleteProperty: () => false,
+                },
+              );
+            }
+
+            // The bounds are checked against each other, so `min` is reset before the new `max` is applied
+            (target[p] as Record<string, unknown>)['min'] = undefined;
+
+            // Applying provided options
+            for (const k of ['enabled', 'max', 'min', 'decreaseFactor', 'latencyTolerance']) {
+              (target[p] as Record<string, unknown>)[k] = value
+                ? ((value as object)[k] as unknown)
+                : undefined;
+            }
+
             return true;
           // Logger
           case 'logger':
@@ -410,6 +1182,30 @@ export function validateOptions<
     if (typeof validatedOptions.resolveList === 'undefined') {
       throw new Error('Property "resolveList" is required');
     }
+  } else if (validatedOptions.paginationType === PaginationType.Offset) {
+    if (
+      typeof validatedOptions.resolveTotal === 'undefined' &&
+      typeof validatedOptions.resolveItemCount === 'undefined'
+    ) {
+      throw new Error('Property "resolveTotal" or "resolveItemCount" is required');
+    }
+  } else if (validatedOptions.paginationType === PaginationType.Crawl) {
+    if (typeof validatedOptions.resolveSeeds === 'undefined') {
+      throw new Error('Property "resolveSeeds" is required');
+    }
+    if (typeof validatedOptions.resolveLinks === 'undefined') {
+      throw new Error('Property "resolveLinks" is required');
+    }
+  } else if (validatedOptions.paginationType === PaginationType.TimeWindow) {
+    if (typeof validatedOptions.from === 'undefined') {
+      throw new Error('Property "from" is required');
+    }
+    if (
+      typeof validatedOptions.to !== 'undefined' &&
+      validatedOptions.to <= validatedOptions.from
+    ) {
+      throw new Error('Property "to" must be greater than "from"');
+    }
   }
 
   return validatedOptions;